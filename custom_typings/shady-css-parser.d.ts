@@ -1,19 +1,71 @@
 declare module 'shady-css-parser' {
   export class Parser {
     parse(cssText: string): Stylesheet;
+    parseStylesheet(tokenizer: Tokenizer): Stylesheet;
+    parseRule(tokenizer: Tokenizer): Rule|null;
+    parseComment(tokenizer: Tokenizer): Comment;
+    parseUnknown(tokenizer: Tokenizer): Discarded;
+    parseAtRule(tokenizer: Tokenizer): AtRule;
+    parseRulelist(tokenizer: Tokenizer): Rulelist;
+    parseDeclarationOrRuleset(tokenizer: Tokenizer): Declaration|Ruleset;
+  }
+  export class Tokenizer {
+    cssText: string;
+    /** The next token, which hasn't been advanced past yet. */
+    readonly currentToken: Token|null;
+    constructor(cssText: string);
+    advance(): Token|null;
+    slice(startToken: Token, endToken?: Token): string;
+  }
+  export class Token {
+    static type: {
+      none: number,
+      whitespace: number,
+      string: number,
+      comment: number,
+      word: number,
+      boundary: number,
+      propertyBoundary: number,
+      openParenthesis: number,
+      closeParenthesis: number,
+      at: number,
+      openBrace: number,
+      closeBrace: number,
+      semicolon: number,
+      colon: number
+    };
+    type: number;
+    /** The offset of the token's first character in the CSS text. */
+    start: number;
+    /** The offset just after the token's last character in the CSS text. */
+    end: number;
+    previous: Token|null;
+    next: Token|null;
+    is(type: number): boolean;
   }
   export type Node =
       Stylesheet | AtRule | Comment | Rulelist | Ruleset | Declaration |
       Expression | Discarded;
   export type Rule = Comment | AtRule | Ruleset | Declaration | Discarded;
 
+  /**
+   * The offsets of a node in the CSS text. shady-css-parser doesn't track
+   * these itself, they're recorded by the analyzer's CssParser.
+   */
+  export interface Range {
+    start: number;
+    end: number;
+  }
+
   export interface Stylesheet {
     type: 'stylesheet';
+    range?: Range;
     /** The list of rules that appear at the top level of the stylesheet. */
     rules: Rule[];
   }
   export interface AtRule {
     type: 'atRule';
+    range?: Range;
     /** The "name" of the At Rule (e.g., `charset`) */
     name: string;
     /** The "parameters" of the At Rule (e.g., `utf8`) */
@@ -23,6 +75,7 @@ declare module 'shady-css-parser' {
   }
   export interface Comment {
     type: 'comment';
+    range?: Range;
     /**
      * The full text content of the comment, including opening and closing
      * comment signature.
@@ -31,11 +84,13 @@ declare module 'shady-css-parser' {
   }
   export interface Rulelist {
     type: 'rulelist';
+    range?: Range;
     /** An array of the Rule nodes found within the Ruleset. */
     rules: Rule[];
   }
   export interface Ruleset {
     type: 'ruleset';
+    range?: Range;
     /** The selector that corresponds to the Selector (e.g., `#foo > .bar`). */
     selector: string;
     /** The Rulelist node that corresponds to the Selector. */
@@ -43,12 +98,14 @@ declare module 'shady-css-parser' {
   }
   export interface Declaration {
     type: 'declaration';
+    range?: Range;
     /** The property name of the Declaration (e.g., `color`). */
     name: string;
     value: Expression | Rulelist;
   }
   export interface Expression {
     type: 'expression';
+    range?: Range;
     /** The full text content of the expression (e.g., `url(img.jpg)`) */
     text: string;
   }
@@ -58,6 +115,7 @@ declare module 'shady-css-parser' {
    */
   export interface Discarded {
     type: 'discarded';
+    range?: Range;
     /** The text content that is discarded. */
     text: string;
   }
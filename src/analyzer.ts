@@ -16,24 +16,31 @@
 
 import * as path from 'path';
 
-import {Document, InlineParsedDocument, LocationOffset, ScannedDocument, ScannedElement, ScannedFeature, ScannedImport, correctSourceRange} from './model/model';
+import {Analysis, Document, InlineParsedDocument, LocationOffset, ScannedDocument, ScannedElement, ScannedFeature, ScannedImport, correctSourceRange} from './model/model';
+import {CacheStore} from './cache/cache-store';
+import {ScannedDocumentCache} from './cache/scanned-document-cache';
 import {CssParser} from './css/css-parser';
 import {Severity, Warning, WarningCarryingException} from './editor-service';
 import {HtmlImportScanner} from './html/html-import-scanner';
 import {HtmlParser} from './html/html-parser';
 import {HtmlScriptScanner} from './html/html-script-scanner';
 import {HtmlStyleScanner} from './html/html-style-scanner';
+import {JavaScriptImportScanner} from './javascript/javascript-import-scanner';
 import {JavaScriptParser} from './javascript/javascript-parser';
 import {JsonParser} from './json/json-parser';
 import {ParsedDocument} from './parser/document';
 import {Parser} from './parser/parser';
 import {Measurement, TelemetryTracker} from './perf/telemetry';
 import {BehaviorScanner} from './polymer/behavior-scanner';
+import {CssCustomPropertyScanner} from './polymer/css-custom-property-scanner';
 import {CssImportScanner} from './polymer/css-import-scanner';
+import {DatabindingScanner} from './polymer/databinding-scanner';
 import {DomModuleScanner} from './polymer/dom-module-scanner';
 import {PolymerElementScanner} from './polymer/polymer-element-scanner';
 import {scan} from './scanning/scan';
 import {Scanner} from './scanning/scanner';
+import {DocumentParser, deserializeScannedDocument} from './scanning/serialization';
+import {WorkerPool} from './scanning/worker-pool';
 import {UrlLoader} from './url-loader/url-loader';
 import {UrlResolver} from './url-loader/url-resolver';
 import {ElementScanner as VanillaElementScanner} from './vanilla-custom-elements/element-scanner';
@@ -43,6 +50,23 @@ export interface Options {
   urlResolver?: UrlResolver;
   parsers?: Map<string, Parser<any>>;
   scanners?: Map<string, Scanner<any, any, any>[]>;
+
+  /**
+   * Where to cache the scanned features of documents between runs, so that
+   * unchanged documents aren't parsed or scanned again. Entries are scanned
+   * with the default parsers and scanners and without a resolver, so this
+   * can't be combined with custom ones, or with a resolver that resolves
+   * imports.
+   */
+  cacheStore?: CacheStore;
+
+  /**
+   * Parses and scans documents in the pool's workers rather than in this
+   * process. Workers use the default parsers and scanners and no resolver, so
+   * this can't be combined with custom ones, or with a resolver that resolves
+   * imports.
+   */
+  workerPool?: WorkerPool;
 }
 
 export class NoKnownParserError extends Error {};
@@ -68,7 +92,8 @@ export class Analyzer {
       'html',
       [
         new HtmlImportScanner(), new HtmlScriptScanner(),
-        new HtmlStyleScanner(), new DomModuleScanner(), new CssImportScanner()
+        new HtmlStyleScanner(), new DomModuleScanner(), new CssImportScanner(),
+        new DatabindingScanner(), new CssCustomPropertyScanner()
       ]
     ],
     [
@@ -82,56 +107,214 @@ export class Analyzer {
 
   private _loader: UrlLoader;
   private _resolver: UrlResolver|undefined;
+  private _cache: ScannedDocumentCache|undefined;
+  private _workerPool: WorkerPool|undefined;
   private _parsedDocuments =
       new Map<string, Promise<ParsedDocument<any, any>>>();
   private _scannedDocuments = new Map<string, Promise<ScannedDocument>>();
+  private _documents = new Map<string, Promise<Document>>();
+
+  /**
+   * Maps the resolved url of a document to the resolved urls of the documents
+   * that import it.
+   *
+   * Entries are never removed, so an import that has since been deleted can
+   * cause extra invalidation, but never too little.
+   */
+  private _dependants = new Map<string, Set<string>>();
+
+  /**
+   * Maps the resolved url of each document that's being scanned to the
+   * resolved urls of the imported documents whose scans it's waiting for, so
+   * that cyclic imports don't leave two scans waiting for each other.
+   */
+  private _scansWaitingFor = new Map<string, Set<string>>();
+
+  /**
+   * The cyclic imports that are waiting for the scans of the documents they
+   * import before they can be linked up to them. They remove themselves once
+   * they're linked.
+   */
+  private _pendingCycleLinks = new Set<Promise<void>>();
   private _telemetryTracker = new TelemetryTracker();
 
   constructor(options: Options) {
     this._loader = options.urlLoader;
+    if (this._loader.onChange) {
+      // Loaders are given resolved urls, so they report changes with them.
+      this._loader.onChange((resolvedUrls) => this._invalidate(resolvedUrls));
+    }
     this._resolver = options.urlResolver;
     this._parsers = options.parsers || this._parsers;
+    // Bare module specifiers are resolved by the analyzer's resolver.
+    this.scanners.get('js').push(new JavaScriptImportScanner(this._resolver));
     this.scanners = options.scanners || this.scanners;
+    if ((options.cacheStore || options.workerPool) && this._resolver &&
+        this._resolver.resolveImport) {
+      // Cached documents and documents scanned by workers have had their
+      // imports resolved without it.
+      throw new Error(
+          'A cache store or worker pool can\'t be used with a resolver that ' +
+          'resolves imports.');
+    }
+    if (options.cacheStore && (options.parsers || options.scanners)) {
+      // Cache entries are only keyed by url, so they're only valid for the
+      // parsers and scanners that every analyzer has.
+      throw new Error(
+          'A cache store can only be used with the default parsers and ' +
+          'scanners.');
+    }
+    if (options.cacheStore) {
+      this._cache = new ScannedDocumentCache(options.cacheStore);
+    }
+    if (options.workerPool && (options.parsers || options.scanners)) {
+      throw new Error(
+          'A worker pool can only be used with the default parsers and ' +
+          'scanners.');
+    }
+    this._workerPool = options.workerPool;
   }
 
   /**
    * Loads, parses and analyzes the root document of a dependency graph and its
    * transitive dependencies.
    *
-   * Note: The analyzer only supports analyzing a single root for now. This
-   * is because each analyzed document in the dependency graph has a single
-   * root. This mean that we can't properly analyze app-shell-style, lazy
-   * loading apps.
+   * Note: each analyzed document in the dependency graph has a single root.
+   * To analyze app-shell-style, lazy loading apps use `analyzeRoots`.
    *
    * @param contents Optional contents of the file when it is known without
    * reading it from disk. Clears the caches so that the news contents is used
-   * and reanalyzed. Useful for editors that want to re-analyze changed files.
+   * and reanalyzed. Editors can instead keep their unsaved changes in an
+   * `OverlayUrlLoader`, which tells the analyzer when files change.
    */
   async analyzeRoot(url: string, contents?: string): Promise<Document> {
     const resolvedUrl = this._resolveUrl(url);
 
-    // if we're given new contents, clear the cache
-    // TODO(justinfagnani): It might be better to preserve a single code path
-    // for loading file contents via UrlLoaders, and just offer a method to
-    // re-analyze a particular file. Editors can use a UrlLoader that reads from
-    // it's internal buffers.
+    // if we're given new contents, clear the caches
     if (contents != null) {
-      this._scannedDocuments.delete(resolvedUrl);
-      this._parsedDocuments.delete(resolvedUrl);
+      this._invalidate([resolvedUrl]);
     }
 
-    const scannedDocument = await this._scanResolved(resolvedUrl, contents);
-    const doneTiming =
-        this._telemetryTracker.start('Document.makeRootDocument', url);
-    const document = Document.makeRootDocument(scannedDocument);
-    doneTiming();
-    return document;
+    return this._analyzeResolved(resolvedUrl, contents);
+  }
+
+  /**
+   * Loads, parses and analyzes several root documents and their transitive
+   * dependencies, e.g. the shell and lazily loaded fragments of an app.
+   *
+   * Each root is resolved against its own dependency graph, and the results
+   * are combined into a single, deduplicated `Analysis` that records which
+   * roots can reach each feature.
+   */
+  async analyzeRoots(urls: string[]): Promise<Analysis> {
+    const resolvedUrls = urls.map((url) => this._resolveUrl(url));
+    const documents = await Promise.all(
+        resolvedUrls.map((resolvedUrl) => this._analyzeResolved(resolvedUrl)));
+    return new Analysis(documents);
+  }
+
+  /**
+   * Informs the analyzer that the files at the given urls have changed.
+   *
+   * The changed files will be loaded and parsed again the next time that they
+   * are needed. The scanned documents that transitively import them are
+   * rescanned, so that none of them refer to stale dependencies, and only the
+   * roots whose dependency graphs include a changed file are resolved again.
+   */
+  filesChanged(urls: string[]): void {
+    this._invalidate(urls.map((url) => this._resolveUrl(url)));
+  }
+
+  /**
+   * Returns the resolved urls of the roots whose dependency graphs include
+   * any of the documents at the given urls: the known documents that import
+   * them, directly or transitively, and that aren't imported by anything.
+   *
+   * Only documents that have been scanned are known to import anything, so a
+   * document that nothing is known to import is its own root.
+   */
+  getRootsImporting(urls: string[]): string[] {
+    const resolvedUrls = urls.map((url) => this._resolveUrl(url));
+    const roots = Array.from(this._getDependants(resolvedUrls))
+                      .filter((url) => !this._dependants.has(url));
+    // Documents in import cycles that nothing else imports have no root.
+    return roots.length > 0 ? roots : resolvedUrls;
   }
 
   async getTelemetryMeasurements(): Promise<Measurement[]> {
     return this._telemetryTracker.getMeasurements();
   }
 
+  private async _analyzeResolved(resolvedUrl: string, contents?: string):
+      Promise<Document> {
+    const cachedResult = this._documents.get(resolvedUrl);
+    if (cachedResult) {
+      return cachedResult;
+    }
+    const promise = (async() => {
+      // Make sure we wait and return a Promise before doing any work, so that
+      // the Promise is cached before anything else happens.
+      await Promise.resolve();
+      const scannedDocument = await this._scanResolved(resolvedUrl, contents);
+      // Scans that close an import cycle may have finished before the other
+      // end of the cycle, so make sure that the whole graph is linked.
+      while (this._pendingCycleLinks.size > 0) {
+        await Promise.all(Array.from(this._pendingCycleLinks));
+      }
+      const doneTiming = this._telemetryTracker.start(
+          'Document.makeRootDocument', resolvedUrl);
+      const document = Document.makeRootDocument(scannedDocument);
+      doneTiming();
+      return document;
+    })();
+    this._documents.set(resolvedUrl, promise);
+    return promise;
+  }
+
+  /**
+   * Drops the cached results for the given resolved urls and for every
+   * document that transitively depends on them.
+   */
+  private _invalidate(resolvedUrls: string[]) {
+    for (const resolvedUrl of resolvedUrls) {
+      this._parsedDocuments.delete(resolvedUrl);
+    }
+    for (const url of this._getDependants(resolvedUrls)) {
+      this._scannedDocuments.delete(url);
+      this._documents.delete(url);
+    }
+  }
+
+  /**
+   * Returns the given resolved urls and those of every document that's known
+   * to transitively depend on them.
+   */
+  private _getDependants(resolvedUrls: string[]): Set<string> {
+    const dependants = new Set<string>();
+    const toVisit = resolvedUrls.slice();
+    while (toVisit.length > 0) {
+      const url = toVisit.pop();
+      if (dependants.has(url)) {
+        continue;
+      }
+      dependants.add(url);
+      for (const dependant of this._dependants.get(url) || []) {
+        toVisit.push(dependant);
+      }
+    }
+    return dependants;
+  }
+
+  /**
+   * Parses and scans a document without its imports, always in this process.
+   * This is what the workers of a `WorkerPool` run.
+   */
+  async scanLocally(resolvedUrl: string, contents: string):
+      Promise<ScannedDocument> {
+    const extension = path.extname(resolvedUrl).substring(1);
+    return this._scanDocument(this._parse(extension, contents, resolvedUrl));
+  }
+
   private async _scanResolved(resolvedUrl: string, contents?: string):
       Promise<ScannedDocument> {
     const cachedResult = this._scannedDocuments.get(resolvedUrl);
@@ -142,13 +325,60 @@ export class Analyzer {
       // Make sure we wait and return a Promise before doing any work, so that
       // the Promise is cached before anything else happens.
       await Promise.resolve();
-      const document = await this._loadResolved(resolvedUrl, contents);
-      return this._scanDocument(document);
+      const scannedDocument =
+          await this._scanResolvedLocally(resolvedUrl, contents);
+      await this._scanDependencies(scannedDocument);
+      return scannedDocument;
     })();
     this._scannedDocuments.set(resolvedUrl, promise);
     return promise;
   }
 
+  /**
+   * Scans a document without its imports, gets it from the cache if it hasn't
+   * changed since it was cached, or has a worker scan it.
+   */
+  private async _scanResolvedLocally(
+      resolvedUrl: string,
+      providedContents?: string): Promise<ScannedDocument> {
+    // A document that's already parsed, e.g. one that's being rescanned
+    // because a file it imports changed, is quicker to scan again.
+    if ((!this._cache && !this._workerPool) ||
+        this._parsedDocuments.has(resolvedUrl)) {
+      return this._scanDocument(
+          await this._loadResolved(resolvedUrl, providedContents));
+    }
+    const contents = providedContents == null ?
+        await this._loadContents(resolvedUrl) :
+        providedContents;
+    const parse: DocumentParser = (type, contents, url, locationOffset) =>
+        this._parse(type, contents, url, locationOffset);
+    if (this._cache) {
+      const cachedDocument =
+          await this._cache.get(resolvedUrl, contents, parse);
+      if (cachedDocument) {
+        return cachedDocument;
+      }
+    }
+    // Documents without a parser are left to fail here, as they always have.
+    const extension = path.extname(resolvedUrl).substring(1);
+    if (this._workerPool && this._parsers.has(extension)) {
+      const serialized = await this._workerPool.scan(resolvedUrl, contents);
+      if (serialized) {
+        if (this._cache) {
+          await this._cache.setSerialized(resolvedUrl, contents, serialized);
+        }
+        return deserializeScannedDocument(serialized, () => contents, parse);
+      }
+    }
+    const scannedDocument = await this._scanDocument(
+        await this._loadResolved(resolvedUrl, contents));
+    if (this._cache) {
+      await this._cache.set(resolvedUrl, contents, scannedDocument);
+    }
+    return scannedDocument;
+  }
+
   /**
    * Parses and scans a document from source.
    */
@@ -157,12 +387,13 @@ export class Analyzer {
       locationOffset?: LocationOffset,
       attachedComment?: string): Promise<ScannedDocument> {
     const resolvedUrl = this._resolveUrl(url);
-    const document = this._parse(type, contents, resolvedUrl);
+    const document = this._parse(type, contents, resolvedUrl, locationOffset);
     return await this._scanDocument(document, locationOffset, attachedComment);
   }
 
   /**
-   * Scans a parsed Document object.
+   * Scans a parsed Document object and its inline documents, but not the
+   * documents that it imports.
    */
   private async _scanDocument(
       document: ParsedDocument<any, any>, maybeLocationOffset?: LocationOffset,
@@ -191,25 +422,36 @@ export class Analyzer {
       firstScannedFeature.applyHtmlComment(maybeAttachedComment);
     }
 
-    const scannedDependencies: ScannedFeature[] = scannedFeatures.filter(
-        (e) => e instanceof InlineParsedDocument || e instanceof ScannedImport);
-    const scannedSubDocuments =
-        scannedDependencies.map(async(scannedDependency) => {
-          if (scannedDependency instanceof InlineParsedDocument) {
-            return this._scanInlineDocument(
-                scannedDependency, document, warnings);
-          } else if (scannedDependency instanceof ScannedImport) {
-            return this._scanImport(scannedDependency, warnings);
-          } else {
-            throw new Error(`Unexpected dependency type: ${scannedDependency}`);
-          }
-        });
-
-    const dependencies =
-        (await Promise.all(scannedSubDocuments)).filter(s => !!s);
+    await Promise.all(
+        scannedFeatures.filter((f) => f instanceof InlineParsedDocument)
+            .map(
+                (inlineDoc: InlineParsedDocument) =>
+                    this._scanInlineDocument(inlineDoc, document, warnings)));
 
     return new ScannedDocument(
-        document, dependencies, scannedFeatures, locationOffset, warnings);
+        document, [], scannedFeatures, locationOffset, warnings);
+  }
+
+  /**
+   * Scans the documents that a scanned document and its inline documents
+   * import, and links them and its inline documents up as its dependencies.
+   */
+  private async _scanDependencies(scannedDocument: ScannedDocument):
+      Promise<void> {
+    const dependencies =
+        await Promise.all(scannedDocument.features.map(async(feature) => {
+          if (feature instanceof InlineParsedDocument) {
+            if (feature.scannedDocument) {
+              await this._scanDependencies(feature.scannedDocument);
+            }
+            return feature.scannedDocument;
+          } else if (feature instanceof ScannedImport && feature.url != null) {
+            return this._scanImport(
+                feature, scannedDocument.url, scannedDocument.warnings);
+          }
+          return null;
+        }));
+    scannedDocument.dependencies = dependencies.filter((d) => !!d);
   }
 
   /**
@@ -243,15 +485,41 @@ export class Analyzer {
     }
   }
 
-  private async _scanImport(scannedImport: ScannedImport, warnings: Warning[]):
-      Promise<ScannedDocument|null> {
+  private async _scanImport(
+      scannedImport: ScannedImport, importerUrl: string,
+      warnings: Warning[]): Promise<ScannedDocument|null> {
+    // HACK(rictic): this isn't quite right either, we need to get
+    //     the scanned dependency's url relative to the basedir don't
+    //     we?
+    const resolvedUrl = this._resolveUrl(scannedImport.url);
+    const dependants = this._dependants.get(resolvedUrl) || new Set<string>();
+    dependants.add(importerUrl);
+    this._dependants.set(resolvedUrl, dependants);
+
+    if (this._isScanWaitingFor(resolvedUrl, importerUrl)) {
+      // A cyclic import. Waiting for the imported document's scan would
+      // deadlock, since it's waiting for ours, so link it up once it's done.
+      // Roots wait for these links before they're resolved.
+      const link = (async() => {
+        try {
+          scannedImport.scannedDocument = await this._scanResolved(resolvedUrl);
+        } catch (error) {
+          // The scan that's waiting for ours reports any failure.
+        } finally {
+          this._pendingCycleLinks.delete(link);
+        }
+      })();
+      this._pendingCycleLinks.add(link);
+      return null;
+    }
+
     let scannedDocument: ScannedDocument;
+    const waitingFor =
+        this._scansWaitingFor.get(importerUrl) || new Set<string>();
+    this._scansWaitingFor.set(importerUrl, waitingFor);
+    waitingFor.add(resolvedUrl);
     try {
-      // HACK(rictic): this isn't quite right either, we need to get
-      //     the scanned dependency's url relative to the basedir don't
-      //     we?
-      scannedDocument =
-          await this._scanResolved(this._resolveUrl(scannedImport.url));
+      scannedDocument = await this._scanResolved(resolvedUrl);
     } catch (error) {
       if (error instanceof NoKnownParserError) {
         // We probably don't want to fail when importing something
@@ -266,20 +534,40 @@ export class Analyzer {
         severity: Severity.ERROR
       });
       return null;
+    } finally {
+      waitingFor.delete(resolvedUrl);
     }
     scannedImport.scannedDocument = scannedDocument;
     return scannedDocument;
   }
 
+  /**
+   * Whether the scan of `fromUrl` is waiting, directly or through other
+   * scans, for the scan of `toUrl` to finish.
+   */
+  private _isScanWaitingFor(fromUrl: string, toUrl: string): boolean {
+    const visited = new Set<string>();
+    const toVisit = [fromUrl];
+    while (toVisit.length > 0) {
+      const url = toVisit.pop();
+      if (url === toUrl) {
+        return true;
+      }
+      if (visited.has(url)) {
+        continue;
+      }
+      visited.add(url);
+      toVisit.push(...(this._scansWaitingFor.get(url) || []));
+    }
+    return false;
+  }
+
   private async _loadResolved(resolvedUrl: string, providedContents?: string):
       Promise<ParsedDocument<any, any>> {
     const cachedResult = this._parsedDocuments.get(resolvedUrl);
     if (cachedResult) {
       return cachedResult;
     }
-    if (!this._loader.canLoad(resolvedUrl)) {
-      throw new Error(`Can't load URL: ${resolvedUrl}`);
-    }
     // Use an immediately executed async function to create the final Promise
     // synchronously so we can store it in this._documents before any other
     // async operations to avoid any race conditions.
@@ -288,7 +576,7 @@ export class Analyzer {
       // the Promise can be cached.
       await Promise.resolve();
       const content = providedContents == null ?
-          await this._loader.load(resolvedUrl) :
+          await this._loadContents(resolvedUrl) :
           providedContents;
       const extension = path.extname(resolvedUrl).substring(1);
 
@@ -301,14 +589,22 @@ export class Analyzer {
     return promise;
   }
 
-  private _parse(type: string, contents: string, url: string):
-      ParsedDocument<any, any> {
+  private async _loadContents(resolvedUrl: string): Promise<string> {
+    if (!this._loader.canLoad(resolvedUrl)) {
+      throw new Error(`Can't load URL: ${resolvedUrl}`);
+    }
+    return this._loader.load(resolvedUrl);
+  }
+
+  private _parse(
+      type: string, contents: string, url: string,
+      locationOffset?: LocationOffset): ParsedDocument<any, any> {
     const parser = this._parsers.get(type);
     if (parser == null) {
       throw new NoKnownParserError(`No parser for for file type ${type}`);
     }
     try {
-      return parser.parse(contents, url);
+      return parser.parse(contents, url, locationOffset);
     } catch (error) {
       if (error instanceof WarningCarryingException) {
         throw error;
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+/**
+ * Somewhere to keep the results of analysis between runs of the analyzer.
+ */
+export interface CacheStore {
+  /**
+   * Returns the value stored at `key`, or undefined if there isn't one.
+   */
+  get(key: string): Promise<string|undefined>;
+
+  /**
+   * Stores `value` at `key`, replacing any value that's already there.
+   */
+  set(key: string, value: string): Promise<void>;
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as fs from 'fs';
+import * as pathlib from 'path';
+
+import {CacheStore} from './cache-store';
+
+/**
+ * Stores each cached value in its own file in a directory, which is created
+ * when the first value is stored.
+ *
+ * Keys are used as file names, so they should be safe to use as such, like the
+ * hex digests that `ScannedDocumentCache` uses.
+ */
+export class FSCacheStore implements CacheStore {
+  directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  get(key: string): Promise<string|undefined> {
+    return new Promise((resolve, reject) => {
+      fs.readFile(
+          this._getFilePath(key), 'utf8',
+          (error: NodeJS.ErrnoException, contents: string) => {
+            if (error && error.code === 'ENOENT') {
+              resolve(undefined);
+            } else if (error) {
+              reject(error);
+            } else {
+              resolve(contents);
+            }
+          });
+    });
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await makeDirectory(this.directory);
+    // Written to a temporary file first so that another process reading the
+    // same cache never sees a partly written value.
+    const filePath = this._getFilePath(key);
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await new Promise<void>((resolve, reject) => {
+      fs.writeFile(temporaryPath, value, 'utf8', (error: Error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      fs.rename(temporaryPath, filePath, (error: Error) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private _getFilePath(key: string): string {
+    return pathlib.join(this.directory, `${key}.json`);
+  }
+}
+
+/**
+ * Creates a directory and any of its ancestors that don't exist yet.
+ */
+async function makeDirectory(directory: string): Promise<void> {
+  const error = await new Promise<NodeJS.ErrnoException|null>((resolve) => {
+    fs.mkdir(directory, (error: NodeJS.ErrnoException) => resolve(error));
+  });
+  if (!error || error.code === 'EEXIST') {
+    return;
+  }
+  const parent = pathlib.dirname(directory);
+  if (error.code !== 'ENOENT' || parent === directory) {
+    throw error;
+  }
+  await makeDirectory(parent);
+  await makeDirectory(directory);
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as pathlib from 'path';
+
+import {ScannedDocument} from '../model/model';
+import {DocumentParser, SerializedDocument, deserializeScannedDocument, serializeScannedDocument} from '../scanning/serialization';
+
+import {CacheStore} from './cache-store';
+
+/**
+ * Changed whenever the way that documents are cached changes, so that entries
+ * written by older analyzers are ignored.
+ */
+const cacheFormatVersion = 5;
+
+const analyzerVersion: string =
+    JSON.parse(fs.readFileSync(
+                   pathlib.join(__dirname, '../../package.json'), 'utf-8'))
+        .version;
+
+interface CacheEntry {
+  contentHash: string;
+  document: SerializedDocument;
+}
+
+/**
+ * Caches the features of scanned documents in a `CacheStore`, so that a
+ * document whose contents haven't changed doesn't need to be parsed or scanned
+ * again, even by another analyzer in another process.
+ *
+ * Entries are keyed by the url of the document and the version of the
+ * analyzer, and hold a hash of the contents that they were scanned from.
+ *
+ * ASTs aren't cached. A document from the cache is parsed again the first time
+ * that its AST is needed, including when one of its features' references to
+ * nodes of its AST is used.
+ *
+ * The cache never fails an analysis: entries that can't be read count as
+ * missing, and documents that can't be cached just aren't.
+ */
+export class ScannedDocumentCache {
+  private _store: CacheStore;
+
+  constructor(store: CacheStore) {
+    this._store = store;
+  }
+
+  /**
+   * Returns the cached scan of the document at `url` with the given contents,
+   * if there is one. Its dependencies aren't included, only its own features
+   * and those of its inline documents.
+   */
+  async get(url: string, contents: string, parse: DocumentParser):
+      Promise<ScannedDocument|undefined> {
+    try {
+      const serialized = await this._store.get(getCacheKey(url));
+      if (serialized == null) {
+        return undefined;
+      }
+      const entry: CacheEntry = JSON.parse(serialized);
+      if (entry.contentHash !== hash(contents)) {
+        return undefined;
+      }
+      return deserializeScannedDocument(entry.document, () => contents, parse);
+    } catch (_) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Caches the features of a document that was just scanned from `contents`.
+   */
+  async set(url: string, contents: string, scannedDocument: ScannedDocument):
+      Promise<void> {
+    let serialized: SerializedDocument;
+    try {
+      serialized = serializeScannedDocument(scannedDocument);
+    } catch (_) {
+      // Not cached.
+      return;
+    }
+    await this.setSerialized(url, contents, serialized);
+  }
+
+  /**
+   * Caches a document that was already serialized, e.g. by a worker.
+   */
+  async setSerialized(
+      url: string, contents: string,
+      serialized: SerializedDocument): Promise<void> {
+    try {
+      const entry:
+          CacheEntry = {contentHash: hash(contents), document: serialized};
+      await this._store.set(getCacheKey(url), JSON.stringify(entry));
+    } catch (_) {
+      // Not cached.
+    }
+  }
+}
+
+function getCacheKey(url: string): string {
+  return hash(JSON.stringify([cacheFormatVersion, analyzerVersion, url]));
+}
+
+function hash(contents: string): string {
+  return crypto.createHash('sha1').update(contents).digest('hex');
+}
@@ -0,0 +1,370 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as path from 'path';
+
+import {Analyzer} from '../analyzer';
+import {FSCacheStore} from '../cache/fs-cache-store';
+import {generateDependencyGraph, serializeDependencyGraphAsDot} from '../generate-dependency-graph';
+import {generateElementMetadata, validateElements} from '../generate-elements';
+import {Linter} from '../linter/linter';
+import {Document, Severity, Warning} from '../model/model';
+import {WorkerPool} from '../scanning/worker-pool';
+import {FSUrlLoader} from '../url-loader/fs-url-loader';
+import {PackageUrlResolver} from '../url-loader/package-url-resolver';
+
+/**
+ * The exit codes of the CLI:
+ *
+ *   - `Success` when nothing was wrong
+ *   - `ProblemsFound` when there were errors or warnings, or the generated
+ *     metadata didn't validate
+ *   - `Failure` when the arguments were wrong or the files couldn't be analyzed
+ */
+export enum ExitCode {
+  Success = 0,
+  ProblemsFound = 1,
+  Failure = 2
+}
+
+export const usage = `Usage: polymer-analyzer <command> [options] <files...>
+
+Commands:
+  analyze <files...>   Prints the metadata of the elements in the files and
+                       everything they import as JSON.
+  lint <files...>      Prints the findings of the lint rules.
+  warnings <files...>  Prints the warnings of the analysis itself.
+  deps <file>          Prints the import graph of a file.
+
+Options:
+  --root <dir>           The directory that URLs are relative to. Defaults to
+                         the current directory.
+  --component-dir <dir>  Where sibling packages are installed, relative to the
+                         root. Defaults to bower_components/.
+  --cache-dir <dir>      Caches the scanned features of files in this
+                         directory, so that later runs only parse and scan
+                         the files that changed.
+  --workers <n>          Parses and scans files in this many worker
+                         processes.
+  --format <format>      text or json for lint and warnings, dot or json for
+                         deps.
+  --collapse-inline      Leaves inline documents out of the deps graph.
+  --help                 Prints this message.
+
+Files are relative to the current directory and must be inside the root.
+
+Exits with 0 when nothing was wrong, 1 when there were errors or warnings,
+and 2 when the files couldn't be analyzed.
+`;
+
+export interface Options {
+  command: string;
+  files: string[];
+  root: string;
+  componentDir?: string;
+  cacheDir?: string;
+  workers?: number;
+  format?: string;
+  collapseInline: boolean;
+  help: boolean;
+}
+
+export interface Result {
+  exitCode: ExitCode;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Thrown for arguments that the CLI doesn't understand.
+ */
+export class UsageError extends Error {}
+
+const formatsByCommand: {[command: string]: string[]} = {
+  analyze: ['json'],
+  lint: ['text', 'json'],
+  warnings: ['text', 'json'],
+  deps: ['dot', 'json'],
+};
+
+/**
+ * Parses the arguments after `polymer-analyzer`, e.g.
+ * `['lint', '--format', 'json', 'index.html']`.
+ */
+export function parseArgs(args: string[], cwd = process.cwd()): Options {
+  const options: Options = {
+    command: '',
+    files: [],
+    root: cwd,
+    collapseInline: false,
+    help: false
+  };
+  for (let i = 0; i < args.length; i++) {
+    let arg = args[i];
+    let value: string|undefined;
+    const equals = arg.indexOf('=');
+    if (arg.startsWith('--') && equals !== -1) {
+      value = arg.substring(equals + 1);
+      arg = arg.substring(0, equals);
+    }
+    const takeValue = () => {
+      if (value === undefined) {
+        value = args[++i];
+      }
+      if (value === undefined) {
+        throw new UsageError(`Missing a value for ${arg}.`);
+      }
+      return value;
+    };
+    switch (arg) {
+      case '--root':
+        options.root = path.resolve(cwd, takeValue());
+        break;
+      case '--component-dir':
+        options.componentDir = takeValue();
+        break;
+      case '--cache-dir':
+        options.cacheDir = path.resolve(cwd, takeValue());
+        break;
+      case '--workers':
+        options.workers = parseWorkers(takeValue());
+        break;
+      case '--format':
+        options.format = takeValue();
+        break;
+      case '--collapse-inline':
+        options.collapseInline = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+        if (!options.command) {
+          options.command = arg;
+        } else {
+          options.files.push(arg);
+        }
+    }
+  }
+  if (options.help) {
+    return options;
+  }
+
+  const formats = formatsByCommand[options.command];
+  if (!options.command) {
+    throw new UsageError('Missing a command.');
+  }
+  if (!formats) {
+    throw new UsageError(`Unknown command: ${options.command}`);
+  }
+  if (options.files.length === 0) {
+    throw new UsageError(`${options.command} needs at least one file.`);
+  }
+  if (options.command === 'deps' && options.files.length > 1) {
+    throw new UsageError('deps takes a single file.');
+  }
+  if (options.format && formats.indexOf(options.format) === -1) {
+    throw new UsageError(
+        `${options.command} can't print ${options.format}, ` +
+        `only ${formats.join(' or ')}.`);
+  }
+  options.format = options.format || formats[0];
+  options.files = options.files.map((file) => {
+    const url = path.relative(options.root, path.resolve(cwd, file));
+    if (url.startsWith('..') || path.isAbsolute(url)) {
+      throw new UsageError(`${file} is outside of the root ${options.root}.`);
+    }
+    return url.split(path.sep).join('/');
+  });
+  return options;
+}
+
+function parseWorkers(value: string): number {
+  const workers = Number(value);
+  if (!(Number.isInteger(workers) && workers >= 1)) {
+    throw new UsageError(`--workers needs a positive number, not ${value}.`);
+  }
+  return workers;
+}
+
+/**
+ * Runs the CLI with the arguments after `polymer-analyzer`, collecting its
+ * output rather than writing it so that the caller decides where it goes.
+ */
+export async function run(
+    args: string[], cwd = process.cwd()): Promise<Result> {
+  let options: Options;
+  try {
+    options = parseArgs(args, cwd);
+  } catch (e) {
+    if (!(e instanceof UsageError)) {
+      throw e;
+    }
+    return {
+      exitCode: ExitCode.Failure,
+      stdout: '',
+      stderr: `${e.message}\n\n${usage}`
+    };
+  }
+  if (options.help) {
+    return {exitCode: ExitCode.Success, stdout: usage, stderr: ''};
+  }
+
+  const workerPool = options.workers && new WorkerPool(options.workers);
+  const analyzer = new Analyzer({
+    urlLoader: new FSUrlLoader(options.root),
+    urlResolver: new PackageUrlResolver({componentDir: options.componentDir}),
+    cacheStore: options.cacheDir && new FSCacheStore(options.cacheDir),
+    workerPool
+  });
+  try {
+    switch (options.command) {
+      case 'analyze':
+        return await analyze(analyzer, options);
+      case 'lint':
+        return await lint(analyzer, options);
+      case 'warnings':
+        return await warnings(analyzer, options);
+      case 'deps':
+        return await deps(analyzer, options);
+    }
+  } catch (e) {
+    return {
+      exitCode: ExitCode.Failure,
+      stdout: '',
+      stderr: `${e && e.message || e}\n`
+    };
+  } finally {
+    if (workerPool) {
+      workerPool.dispose();
+    }
+  }
+  throw new Error(`Unhandled command: ${options.command}`);
+}
+
+async function analyze(analyzer: Analyzer, options: Options): Promise<Result> {
+  const analysis = await analyzer.analyzeRoots(options.files);
+  const componentDir =
+      new PackageUrlResolver({componentDir: options.componentDir})
+          .componentDir;
+  // Only the elements of this package, not those of its dependencies.
+  const elements = Array.from(analysis.getByKind('element'))
+                       .filter(
+                           (element) => element.tagName &&
+                               !element.sourceRange.file.startsWith(
+                                   componentDir));
+  const metadata = generateElementMetadata(elements, '');
+  const stdout = JSON.stringify(metadata, null, 2) + '\n';
+  try {
+    validateElements(metadata);
+  } catch (e) {
+    return {
+      exitCode: ExitCode.ProblemsFound,
+      stdout,
+      stderr: `${e.message}\n`
+    };
+  }
+  return {exitCode: ExitCode.Success, stdout, stderr: ''};
+}
+
+async function lint(analyzer: Analyzer, options: Options): Promise<Result> {
+  const linter = new Linter();
+  const documents = await analyzeEach(analyzer, options.files);
+  return reportWarnings(
+      documents.map((document) => linter.lint(document)), options);
+}
+
+async function warnings(
+    analyzer: Analyzer, options: Options): Promise<Result> {
+  const documents = await analyzeEach(analyzer, options.files);
+  return reportWarnings(
+      documents.map((document) => document.getWarnings({deep: true})),
+      options);
+}
+
+async function deps(analyzer: Analyzer, options: Options): Promise<Result> {
+  const document = await analyzer.analyzeRoot(options.files[0]);
+  const graph = generateDependencyGraph(
+      document, {collapseInlineDocuments: options.collapseInline});
+  const stdout = options.format === 'json' ?
+      JSON.stringify(graph, null, 2) + '\n' :
+      serializeDependencyGraphAsDot(graph);
+  return {exitCode: ExitCode.Success, stdout, stderr: ''};
+}
+
+function analyzeEach(
+    analyzer: Analyzer, files: string[]): Promise<Document[]> {
+  return Promise.all(files.map((file) => analyzer.analyzeRoot(file)));
+}
+
+/**
+ * Prints warnings, dropping the repeats found when several roots import the
+ * same documents, and fails if any of them is worse than `Severity.INFO`.
+ */
+function reportWarnings(
+    warningLists: Warning[][], options: Options): Result {
+  const warnings: Warning[] = [];
+  const seen = new Set<string>();
+  for (const warningList of warningLists) {
+    for (const warning of warningList) {
+      const key = JSON.stringify(
+          [warning.code, warning.message, warning.sourceRange]);
+      if (!seen.has(key)) {
+        seen.add(key);
+        warnings.push(warning);
+      }
+    }
+  }
+
+  let stdout: string;
+  if (options.format === 'json') {
+    const serialized = warnings.map((warning) => ({
+      code: warning.code,
+      message: warning.message,
+      severity: severityName(warning.severity),
+      sourceRange: warning.sourceRange
+    }));
+    stdout = JSON.stringify(serialized, null, 2) + '\n';
+  } else {
+    stdout = warnings.map((warning) => formatWarning(warning) + '\n').join('');
+  }
+  const failed =
+      warnings.some((warning) => warning.severity !== Severity.INFO);
+  return {
+    exitCode: failed ? ExitCode.ProblemsFound : ExitCode.Success,
+    stdout,
+    stderr: ''
+  };
+}
+
+/**
+ * e.g. `index.html:3:5: warning [undefined-elements] The element...`, with
+ * the one-based lines and columns that editors expect.
+ */
+export function formatWarning(warning: Warning): string {
+  const range = warning.sourceRange;
+  const location = range ?
+      `${range.file}:${range.start.line + 1}:${range.start.column + 1}` :
+      '<unknown>';
+  return `${location}: ${severityName(warning.severity)} ` +
+      `[${warning.code}] ${warning.message}`;
+}
+
+function severityName(severity: Severity): string {
+  return Severity[severity].toLowerCase();
+}
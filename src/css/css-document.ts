@@ -14,7 +14,7 @@
 
 import * as shady from 'shady-css-parser';
 
-import {SourceRange} from '../model/model';
+import {SourceRange, correctSourceRange, getLineStarts, positionForOffset} from '../model/model';
 import {Options, ParsedDocument} from '../parser/document';
 
 export interface Visitor { visit(node: shady.Node, path: shady.Node[]): void; }
@@ -70,6 +70,9 @@ class ShadyVisitor extends shady.NodeVisitor<void> {
 export class ParsedCssDocument extends ParsedDocument<shady.Node, Visitor> {
   type = 'css';
 
+  /** The offsets in `contents` at which each line starts, built lazily. */
+  private _lineStarts: number[]|undefined;
+
   constructor(from: Options<shady.Node>) {
     super(from);
   }
@@ -79,11 +82,33 @@ export class ParsedCssDocument extends ParsedDocument<shady.Node, Visitor> {
     shadyVisitor.visit(this.ast);
   }
 
-  forEachNode(_callback: (node: shady.Node) => void) {
-    throw new Error('Not implemented');
+  forEachNode(callback: (node: shady.Node) => void) {
+    this.visit([{visit: (node) => callback(node)}]);
   }
 
-  sourceRangeForNode(_node: shady.Node): SourceRange {
-    throw new Error('Not implemented');
+  sourceRangeForNode(node: shady.Node): SourceRange {
+    if (!node || !node.range) {
+      return;
+    }
+    return this.sourceRangeForOffsets(node.range.start, node.range.end);
+  }
+
+  /**
+   * Converts a range of offsets into `contents` into a SourceRange, e.g. for
+   * part of a node's text.
+   */
+  sourceRangeForOffsets(start: number, end: number): SourceRange {
+    if (!this._lineStarts) {
+      this._lineStarts = getLineStarts(this.contents);
+    }
+    // The offsets are relative to the contents of an inline <style>, so
+    // correct them to be relative to the containing document.
+    return correctSourceRange(
+        {
+          file: this.url,
+          start: positionForOffset(this._lineStarts, start),
+          end: positionForOffset(this._lineStarts, end)
+        },
+        this.locationOffset);
   }
 }
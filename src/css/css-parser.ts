@@ -14,6 +14,7 @@
 
 import * as shadyCss from 'shady-css-parser';
 
+import {LocationOffset} from '../model/model';
 import {Parser} from '../parser/parser';
 import {ParsedCssDocument} from './css-document';
 
@@ -21,14 +22,91 @@ export class CssParser implements Parser<ParsedCssDocument> {
   private _parser: shadyCss.Parser;
 
   constructor() {
-    this._parser = new shadyCss.Parser();
+    this._parser = new RangeTrackingParser();
   }
 
-  parse(contents: string, url: string): ParsedCssDocument {
+  parse(contents: string, url: string, locationOffset?: LocationOffset):
+      ParsedCssDocument {
     let ast = this._parser.parse(contents);
 
     return new ParsedCssDocument({
-        url, contents, ast,
+        url, contents, ast, locationOffset,
     });
   }
 }
+
+/**
+ * A tokenizer that remembers where the last token that it advanced past ends,
+ * not counting whitespace.
+ */
+class RangeTrackingTokenizer extends shadyCss.Tokenizer {
+  lastTokenEnd = 0;
+
+  advance() {
+    const token = super.advance();
+    if (token && !token.is(shadyCss.Token.type.whitespace)) {
+      this.lastTokenEnd = token.end;
+    }
+    return token;
+  }
+}
+
+/**
+ * A shady-css-parser Parser that records the range of each node that it
+ * creates, so that we can find their source ranges.
+ */
+class RangeTrackingParser extends shadyCss.Parser {
+  parse(cssText: string) {
+    return this.parseStylesheet(new RangeTrackingTokenizer(cssText));
+  }
+
+  parseStylesheet(tokenizer: RangeTrackingTokenizer) {
+    const stylesheet = super.parseStylesheet(tokenizer);
+    stylesheet.range = {start: 0, end: tokenizer.cssText.length};
+    return stylesheet;
+  }
+
+  parseComment(tokenizer: RangeTrackingTokenizer) {
+    return this._track(tokenizer, () => super.parseComment(tokenizer));
+  }
+
+  parseUnknown(tokenizer: RangeTrackingTokenizer) {
+    return this._track(tokenizer, () => super.parseUnknown(tokenizer));
+  }
+
+  parseAtRule(tokenizer: RangeTrackingTokenizer) {
+    return this._track(tokenizer, () => super.parseAtRule(tokenizer));
+  }
+
+  parseRulelist(tokenizer: RangeTrackingTokenizer) {
+    return this._track(tokenizer, () => super.parseRulelist(tokenizer));
+  }
+
+  parseDeclarationOrRuleset(tokenizer: RangeTrackingTokenizer) {
+    const node = this._track(
+        tokenizer, () => super.parseDeclarationOrRuleset(tokenizer));
+    if (node.type === 'declaration' && node.value &&
+        node.value.type === 'expression') {
+      // Expressions are created without a parse method of their own, so find
+      // the expression's trimmed text after the declaration's colon.
+      const declarationText =
+          tokenizer.cssText.substring(node.range.start, node.range.end);
+      const valueStart = declarationText.indexOf(
+          node.value.text, declarationText.indexOf(':') + 1);
+      if (valueStart !== -1) {
+        const start = node.range.start + valueStart;
+        node.value.range = {start, end: start + node.value.text.length};
+      }
+    }
+    return node;
+  }
+
+  private _track<N extends shadyCss.Node>(
+      tokenizer: RangeTrackingTokenizer, parse: () => N): N {
+    const start = tokenizer.currentToken ? tokenizer.currentToken.start :
+                                           tokenizer.cssText.length;
+    const node = parse();
+    node.range = {start, end: Math.max(start, tokenizer.lastTokenEnd)};
+    return node;
+  }
+}
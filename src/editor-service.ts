@@ -12,11 +12,16 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
+import * as dom5 from 'dom5';
 import * as parse5 from 'parse5';
 
 import {Analyzer, Options as AnalyzerOptions} from './analyzer';
-import {Document, Element, Property, ScannedProperty, SourceRange} from './model/model';
+import {getAttributesOf} from './known-attributes';
+import {Document, Element, Property, ScannedProperty, SourceRange, Warning, comparePositions, isPositionInsideRange} from './model/model';
 import {ParsedHtmlDocument} from './html/html-document';
+import {BehaviorAssignment, PolymerElement, propertyToAttributeName} from './polymer/element-descriptor';
+
+export {Severity, Warning, WarningCarryingException} from './model/warning';
 
 export interface Position {
   /** Line number in file, starting from 0. */
@@ -43,24 +48,16 @@ export interface AttributeCompletion {
   inheritedFrom?: string;
 }
 
-export interface Warning {
-  message: string;
-  sourceRange: SourceRange;
-  severity: Severity;
-  code: string;
+export interface TextEdit {
+  range: SourceRange;
+  newText: string;
 }
 
-export enum Severity {
-  ERROR,
-  WARNING,
-  INFO
-}
-export class WarningCarryingException extends Error {
-  warning: Warning;
-  constructor(warning: Warning) {
-    super(warning.message);
-    this.warning = warning;
-  }
+/**
+ * Edits to make across several files, keyed by the local path of the file.
+ */
+export interface WorkspaceEdit {
+  changes: {[localPath: string]: TextEdit[]};
 }
 
 export class EditorService {
@@ -69,10 +66,25 @@ export class EditorService {
     this._analyzer = new Analyzer(options);
   }
 
+  /**
+   * Reanalyzes the file at `localPath`. If `contents` isn't given, the file is
+   * loaded again through the UrlLoader.
+   */
   async fileChanged(localPath: string, contents?: string): Promise<Document> {
+    if (contents == null) {
+      this._analyzer.filesChanged([localPath]);
+    }
     return this._analyzer.analyzeRoot(localPath, contents);
   }
 
+  /**
+   * Informs the service that the given files have changed, so that they'll be
+   * reloaded when they're next needed.
+   */
+  filesChanged(localPaths: string[]): void {
+    this._analyzer.filesChanged(localPaths);
+  }
+
   async getDocumentationFor(localPath: string, position: Position):
       Promise<string|undefined> {
     const feature = await this._getFeatureAt(localPath, position);
@@ -96,6 +108,104 @@ export class EditorService {
     return feature.sourceRange;
   }
 
+  /**
+   * Finds every use of the element, attribute or behavior at `position` in
+   * the file at `localPath`, everything that it imports, and every analyzed
+   * file that imports any of those.
+   *
+   * On a custom element's tag that's every tag with the same name, and on one
+   * of its attributes it's that attribute on every such tag. Within a
+   * behavior's declaration, or on an entry in a `behaviors` array, it's every
+   * `behaviors` entry that names that behavior.
+   */
+  async getReferencesFor(localPath: string, position: Position):
+      Promise<SourceRange[]> {
+    const documents = await this._analyzeWithRelatedRoots(localPath);
+    const document = documents[0];
+    const location = await this._getLocationResult(document, position);
+    if (location && location.kind !== 'text' &&
+        isCustomElementNode(location.element)) {
+      const tagName = location.element.nodeName;
+      if (location.kind === 'attribute') {
+        const attribute = location.attribute;
+        if (attribute == null) {
+          return [];
+        }
+        return dedupeRanges(concatMap(
+            documents, (d) => getAttributeReferences(d, tagName, attribute)));
+      }
+      return dedupeRanges(
+          concatMap(documents, (d) => getTagReferences(d, tagName)));
+    }
+    const behaviorName = getBehaviorNameAt(document, position);
+    if (behaviorName === undefined) {
+      return [];
+    }
+    return dedupeRanges(concatMap(documents, getBehaviorAssignments)
+                            .filter(a => a.name === behaviorName)
+                            .map(a => a.sourceRange));
+  }
+
+  /**
+   * Computes the edits that rename the element or property at `position` to
+   * `newName`, in the file at `localPath`, everything that it imports, and
+   * every analyzed file that imports any of those.
+   *
+   * Renaming an element changes its tag name in `is:` declarations,
+   * `customElements.define` calls, `<dom-module id>`s and every tag that uses
+   * it. Renaming a property changes its declaration and every use of its
+   * attribute. When renaming from an attribute, `newName` may be given in
+   * dash-case.
+   *
+   * Returns undefined if there's nothing at `position` that can be renamed.
+   */
+  async getRenameEdits(localPath: string, position: Position, newName: string):
+      Promise<WorkspaceEdit|undefined> {
+    const documents = await this._analyzeWithRelatedRoots(localPath);
+    const document = documents[0];
+    const renameTag = (tagName: string) => groupEdits(
+        concatMap(documents, (d) => getTagRenameEdits(d, tagName, newName)));
+    const renameProperty = (property: Property, newPropertyName: string) =>
+        groupEdits(concatMap(
+            documents,
+            (d) => getPropertyRenameEdits(d, property, newPropertyName)));
+    const location = await this._getLocationResult(document, position);
+    if (location && location.kind !== 'text' &&
+        isCustomElementNode(location.element)) {
+      const element = location.element;
+      if (location.kind !== 'attribute') {
+        return renameTag(element.nodeName);
+      }
+      if (element.nodeName === 'dom-module' && location.attribute === 'id') {
+        return renameTag(dom5.getAttribute(element, 'id'));
+      }
+      if (location.attribute == null) {
+        return;
+      }
+      const property = getPropertyForAttribute(
+          document, element.nodeName, location.attribute);
+      if (!property) {
+        return;
+      }
+      return renameProperty(property, attributeToPropertyName(newName));
+    }
+
+    for (const element of document.getByKind('element')) {
+      const range = element.tagNameSourceRange;
+      if (range && range.file === document.url &&
+          isPositionInsideRange(position, range)) {
+        return renameTag(element.tagName);
+      }
+    }
+    for (const property of getPropertyDeclarations(document)) {
+      const range = getPropertyNameRange(document, property);
+      if (range.file === document.url &&
+          isPositionInsideRange(position, range)) {
+        return renameProperty(property, newName);
+      }
+    }
+  }
+
   async getTypeaheadCompletionsFor(localPath: string, position: Position):
       Promise<TypeaheadCompletion|undefined> {
     const document = await this._analyzer.analyzeRoot(localPath);
@@ -131,7 +241,7 @@ export class EditorService {
           sortPrefixes.set(element.extends, 'ccc-');
         }
         attributes = attributes.concat(
-            element.attributes
+            getAttributesOf(element)
                 .map(p => ({
                        name: p.name,
                        description: p.description,
@@ -161,6 +271,26 @@ export class EditorService {
     return doc.getWarnings();
   }
 
+  /**
+   * Analyzes the file at `localPath`, followed by every root that the
+   * analyzer knows of whose dependency graph shares a document with it, so
+   * that the uses of what it declares or uses can be found in files that it
+   * doesn't import.
+   */
+  private async _analyzeWithRelatedRoots(localPath: string):
+      Promise<Document[]> {
+    const document = await this._analyzer.analyzeRoot(localPath);
+    const urls = new Set<string>();
+    for (const doc of document.getByKind('document')) {
+      urls.add(doc.url);
+    }
+    const roots = this._analyzer.getRootsImporting(Array.from(urls))
+                      .filter((url) => url !== document.url);
+    const others =
+        await Promise.all(roots.map((url) => this._analyzer.analyzeRoot(url)));
+    return [document, ...others];
+  }
+
   private async _getFeatureAt(localPath: string, position: Position):
       Promise<Element|Property|undefined> {
     const document = await this._analyzer.analyzeRoot(localPath);
@@ -260,6 +390,263 @@ function _getLocationInfoForPosition(
       return result;
     }
   }
+  // The contents of a <template> aren't among its childNodes.
+  if (node['content']) {
+    return _getLocationInfoForPosition(node['content'], position);
+  }
+}
+
+function isCustomElementNode(node: parse5.ASTNode): boolean {
+  return !node.nodeName.startsWith('#') && node.nodeName.indexOf('-') !== -1;
+}
+
+/**
+ * Calls `callback` with every element named `tagName` in the HTML documents
+ * that `document` contains or imports, including those inside templates.
+ */
+function forEachTag(
+    document: Document, tagName: string,
+    callback: (node: parse5.ASTNode, htmlDocument: ParsedHtmlDocument) =>
+        void) {
+  for (const doc of document.getByKind('document')) {
+    const parsedDocument = doc.parsedDocument;
+    if (!(parsedDocument instanceof ParsedHtmlDocument)) {
+      continue;
+    }
+    parsedDocument.forEachNodeIncludingTemplates((node) => {
+      if (node.nodeName === tagName && node.__location) {
+        callback(node, parsedDocument);
+      }
+    });
+  }
+}
+
+function getTagReferences(document: Document, tagName: string): SourceRange[] {
+  const references: SourceRange[] = [];
+  forEachTag(document, tagName, (node, htmlDocument) => {
+    references.push(htmlDocument.sourceRangeForTagName(node));
+  });
+  return references;
+}
+
+function getAttributeReferences(
+    document: Document, tagName: string, attribute: string): SourceRange[] {
+  const references: SourceRange[] = [];
+  forEachTag(document, tagName, (node, htmlDocument) => {
+    const range = htmlDocument.sourceRangeForAttributeName(node, attribute);
+    if (range) {
+      references.push(range);
+    }
+  });
+  return references;
+}
+
+function getTagRenameEdits(
+    document: Document, tagName: string, newName: string): TextEdit[] {
+  const edits: TextEdit[] = [];
+  forEachTag(document, tagName, (node, htmlDocument) => {
+    for (const inEndTag of [false, true]) {
+      const range = htmlDocument.sourceRangeForTagName(node, inEndTag);
+      if (range) {
+        edits.push({range, newText: newName});
+      }
+    }
+  });
+  for (const element of document.getById('element', tagName)) {
+    const range = element.tagNameSourceRange;
+    if (range && element.tagName === tagName) {
+      // Keep the string literal's quotes.
+      edits.push({
+        range: {
+          file: range.file,
+          start: {line: range.start.line, column: range.start.column + 1},
+          end: {line: range.end.line, column: range.end.column - 1}
+        },
+        newText: newName
+      });
+    }
+  }
+  for (const domModule of document.getById('dom-module', tagName)) {
+    const htmlDocument = getHtmlDocument(document, domModule.sourceRange.file);
+    const range = htmlDocument &&
+        htmlDocument.sourceRangeForAttributeValue(domModule.node, 'id');
+    if (range) {
+      edits.push({range, newText: newName});
+    }
+  }
+  return edits;
+}
+
+function getPropertyRenameEdits(
+    document: Document, property: Property, newName: string): TextEdit[] {
+  const edits: TextEdit[] =
+      [{range: getPropertyNameRange(document, property), newText: newName}];
+  const attribute = propertyToAttributeName(property.name);
+  const newAttribute = propertyToAttributeName(newName);
+  if (!attribute || !newAttribute) {
+    return edits;
+  }
+  for (const element of document.getByKind('element')) {
+    const hasProperty = element.tagName &&
+        element.properties.some(
+            p => isSameDeclaration(p.sourceRange, property.sourceRange)) &&
+        element.attributes.some(a => a.name === attribute);
+    if (!hasProperty) {
+      continue;
+    }
+    forEachTag(document, element.tagName, (node, htmlDocument) => {
+      const range = htmlDocument.sourceRangeForAttributeName(node, attribute);
+      if (range) {
+        edits.push({range, newText: newAttribute});
+      }
+    });
+  }
+  return edits;
+}
+
+/**
+ * Finds the declaration of the property that `tagName`'s `attribute` sets.
+ */
+function getPropertyForAttribute(
+    document: Document, tagName: string, attribute: string): Property|
+    undefined {
+  for (const element of document.getById('element', tagName)) {
+    const property = element.properties.find(
+        p => propertyToAttributeName(p.name) === attribute);
+    if (property) {
+      return property;
+    }
+  }
+}
+
+/**
+ * Properties as they're declared, rather than as they're inherited.
+ */
+function getPropertyDeclarations(document: Document): Property[] {
+  const elements: Element[] = Array.from(document.getByKind('element'));
+  elements.push(...document.getByKind('behavior'));
+  return concatMap(elements, (e) => e.properties)
+      .filter(p => !p.inheritedFrom && p.sourceRange);
+}
+
+/**
+ * The range of a property's name, which starts its declaration, without the
+ * quotes of a quoted name like `'fooBar': String`.
+ */
+function getPropertyNameRange(
+    document: Document, property: Property): SourceRange {
+  let start = property.sourceRange.start;
+  const contents = getFileContents(document, property.sourceRange.file);
+  const line = contents && contents.split('\n')[start.line];
+  if (line && /['"]/.test(line[start.column])) {
+    start = {line: start.line, column: start.column + 1};
+  }
+  return {
+    file: property.sourceRange.file,
+    start,
+    end: {line: start.line, column: start.column + property.name.length}
+  };
+}
+
+function isSameDeclaration(left: SourceRange, right: SourceRange): boolean {
+  return !!left && !!right && left.file === right.file &&
+      comparePositions(left.start, right.start) === 0;
+}
+
+function getFileContents(document: Document, url: string): string|undefined {
+  for (const doc of document.getByKind('document')) {
+    if (!doc.isInline && doc.url === url) {
+      return doc.parsedDocument.contents;
+    }
+  }
+}
+
+function getHtmlDocument(document: Document, url: string): ParsedHtmlDocument|
+    undefined {
+  for (const doc of document.getByKind('document')) {
+    const parsedDocument = doc.parsedDocument;
+    if (parsedDocument.url === url &&
+        parsedDocument instanceof ParsedHtmlDocument) {
+      return parsedDocument;
+    }
+  }
+}
+
+/**
+ * Drops duplicate ranges, which we can get when a file is reachable from more
+ * than one root.
+ */
+function dedupeRanges(ranges: SourceRange[]): SourceRange[] {
+  const seen = new Set<string>();
+  return ranges.filter((range) => {
+    const key = `${range.file}:${range.start.line}:${range.start.column}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Groups edits by file, dropping duplicates, which we can get when a file is
+ * reachable by more than one path.
+ */
+function groupEdits(edits: TextEdit[]): WorkspaceEdit {
+  const changes: {[localPath: string]: TextEdit[]} = {};
+  const seen = new Set<string>();
+  for (const edit of edits) {
+    const start = edit.range.start;
+    const key = `${edit.range.file}:${start.line}:${start.column}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    if (!changes[edit.range.file]) {
+      changes[edit.range.file] = [];
+    }
+    changes[edit.range.file].push(edit);
+  }
+  return {changes};
+}
+
+function attributeToPropertyName(name: string): string {
+  return name.replace(/-([a-z])/g, (_: string, c: string) => c.toUpperCase());
+}
+
+/**
+ * Finds the behavior that is declared or named in a `behaviors` array at
+ * `position` in `document`'s own file.
+ */
+function getBehaviorNameAt(document: Document, position: Position): string|
+    undefined {
+  let innermost: {name: string, sourceRange: SourceRange}|undefined;
+  const consider = (name: string, sourceRange: SourceRange) => {
+    if (!sourceRange || sourceRange.file !== document.url ||
+        !isPositionInsideRange(position, sourceRange)) {
+      return;
+    }
+    // Ranges nest, so the innermost range is the one that starts last.
+    const start = sourceRange.start;
+    if (!innermost ||
+        comparePositions(start, innermost.sourceRange.start) >= 0) {
+      innermost = {name, sourceRange};
+    }
+  };
+  for (const behavior of document.getByKind('behavior')) {
+    consider(behavior.className, behavior.sourceRange);
+  }
+  for (const assignment of getBehaviorAssignments(document)) {
+    consider(assignment.name, assignment.sourceRange);
+  }
+  return innermost && innermost.name;
+}
+
+function getBehaviorAssignments(document: Document): BehaviorAssignment[] {
+  const elements: PolymerElement[] =
+      Array.from(document.getByKind('polymer-element'));
+  elements.push(...document.getByKind('behavior'));
+  return concatMap(elements, (e) => e.behaviorAssignments);
 }
 
 function isPositionInsideLocation(
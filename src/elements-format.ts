@@ -137,23 +137,7 @@ export interface Element extends Feature {
     }[];
 
     /** CSS Variables that the element understands. */
-    cssVariables: {
-
-      /** The name of the variable. e.g. `--header-color`, `--my-element-size`*/
-      name: string;
-
-      /** The type of the variable. Advisory. e.g. `color`, `size` */
-      type?: string;
-
-      /** A markdown description of the variable. */
-      description?: string;
-
-      /**
-       * A markdown description of how the element will fallback if the variable
-       * isn't defined.
-       */
-      fallbackBehavior?: string;
-    }[];
+    cssVariables: CssVariable[];
 
     /** If true, the element must be given an explicit size by its context. */
     needsExplicitSize?: boolean;
@@ -163,6 +147,23 @@ export interface Element extends Feature {
   };
 }
 
+export interface CssVariable {
+  /** The name of the variable. e.g. `--header-color`, `--my-element-size`*/
+  name: string;
+
+  /** The type of the variable. Advisory. e.g. `color`, `size` */
+  type?: string;
+
+  /** A markdown description of the variable. */
+  description?: string;
+
+  /**
+   * A markdown description of how the element will fallback if the variable
+   * isn't defined.
+   */
+  fallbackBehavior?: string;
+}
+
 export interface Attribute extends Feature {
   /** The name of the attribute. e.g. `value`, `icon`, `should-collapse`. */
   name: string;
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Document, Import} from './model/model';
+
+/**
+ * A document in a dependency graph.
+ */
+export interface DependencyNode {
+  /**
+   * The url of the document, or for an inline document, the url of its
+   * container followed by `#inline-` and its index among the container's
+   * inline documents.
+   */
+  id: string;
+  url: string;
+  /** e.g. `html` or `js`. Absent if the document couldn't be loaded. */
+  type?: string;
+  inline: boolean;
+}
+
+/**
+ * An import of one document by another.
+ */
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  /** e.g. `html-import` or `html-script`, or `inline` for inline documents. */
+  type: string;
+  /** Whether the import is loaded lazily rather than with its importer. */
+  lazy: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+export interface Options {
+  /**
+   * Attributes the imports of inline documents to the documents that contain
+   * them, rather than giving inline documents nodes of their own.
+   */
+  collapseInlineDocuments?: boolean;
+}
+
+const lazyImportTypes = new Set(['lazy-html-import', 'lazy-js-import']);
+
+/**
+ * Builds the graph of the documents that `root` imports, directly or
+ * transitively, in the order that they're imported.
+ */
+export function generateDependencyGraph(
+    root: Document, options: Options = {}): DependencyGraph {
+  const graph: DependencyGraph = {nodes: [], edges: []};
+  const nodeIds = new Set<string>();
+  const addNode = (node: DependencyNode) => {
+    if (!nodeIds.has(node.id)) {
+      nodeIds.add(node.id);
+      graph.nodes.push(node);
+    }
+  };
+  const visited = new Set<Document>();
+
+  const visit = (document: Document, id: string) => {
+    let inlineIndex = 0;
+    for (const feature of document.getLocalFeatures()) {
+      if (feature instanceof Import) {
+        if (feature.url == null) {
+          // Unresolvable, so there's nothing to point an edge at.
+          continue;
+        }
+        const imported = feature.document;
+        const importedId = imported ? imported.url : feature.url;
+        addNode({
+          id: importedId,
+          url: importedId,
+          type: imported ? imported.parsedDocument.type : undefined,
+          inline: false
+        });
+        graph.edges.push({
+          from: id,
+          to: importedId,
+          type: feature.type,
+          lazy: lazyImportTypes.has(feature.type)
+        });
+        if (imported && !visited.has(imported)) {
+          visited.add(imported);
+          visit(imported, importedId);
+        }
+      } else if (feature instanceof Document && feature.isInline) {
+        if (options.collapseInlineDocuments) {
+          visit(feature, id);
+          continue;
+        }
+        const inlineId = `${id}#inline-${inlineIndex++}`;
+        addNode({
+          id: inlineId,
+          url: feature.url,
+          type: feature.parsedDocument.type,
+          inline: true
+        });
+        graph.edges.push({from: id, to: inlineId, type: 'inline', lazy: false});
+        visit(feature, inlineId);
+      }
+    }
+  };
+
+  visited.add(root);
+  addNode({
+    id: root.url,
+    url: root.url,
+    type: root.parsedDocument.type,
+    inline: false
+  });
+  visit(root, root.url);
+  return graph;
+}
+
+/**
+ * Serializes a dependency graph in the Graphviz DOT language, with each edge
+ * labeled by its import type and lazy imports drawn dashed.
+ */
+export function serializeDependencyGraphAsDot(graph: DependencyGraph): string {
+  const lines = ['digraph dependencies {'];
+  for (const node of graph.nodes) {
+    const label = node.inline ? `inline ${node.type}` : node.url;
+    const attributes = [`label=${quote(label)}`];
+    if (node.inline) {
+      attributes.push('shape=box');
+    }
+    if (!node.type) {
+      attributes.push('style=dotted');
+    }
+    lines.push(`  ${quote(node.id)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    const attributes = [`label=${quote(edge.type)}`];
+    if (edge.lazy) {
+      attributes.push('style=dashed');
+    }
+    lines.push(
+        `  ${quote(edge.from)} -> ${quote(edge.to)} ` +
+        `[${attributes.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Quotes a DOT ID. DOT strings use the same escapes as JSON for quotes and
+ * backslashes.
+ */
+function quote(id: string): string {
+  return JSON.stringify(id);
+}
@@ -16,8 +16,8 @@ import * as fs from 'fs';
 import * as jsonschema from 'jsonschema';
 import * as pathLib from 'path';
 
-import {Attribute as ResolvedAttribute, Element as ResolvedElement, Property as ResolvedProperty, SourceRange as ResolvedSourceRange} from './model/model';
-import {Attribute, Element, Elements, Property, SourceRange} from './elements-format';
+import {Attribute as ResolvedAttribute, CssVariable as ResolvedCssVariable, Element as ResolvedElement, Property as ResolvedProperty, Slot as ResolvedSlot, SourceRange as ResolvedSourceRange} from './model/model';
+import {Attribute, CssVariable, Element, Elements, Property, Slot, SourceRange} from './elements-format';
 
 
 export function generateElementMetadata(
@@ -98,11 +98,11 @@ function serializeElement(
     attributes: attributes,
     properties: properties,
     styling: {
-      cssVariables: [],
+      cssVariables: resolvedElement.cssVariables.map(serializeCssVariable),
       selectors: [],
     },
     demos: (resolvedElement.demos || []).map(d => d.path),
-    slots: [],
+    slots: resolvedElement.slots.map(s => serializeSlot(path, s)),
     events: events,
     metadata: resolvedElement.emitMetadata(),
     sourceRange: resolveSourceRangePath(path, resolvedElement.sourceRange)
@@ -126,6 +126,29 @@ function serializeProperty(
   return property;
 }
 
+function serializeSlot(elementPath: string, resolvedSlot: ResolvedSlot): Slot {
+  return {
+    name: resolvedSlot.name,
+    description: resolvedSlot.description || '',
+    sourceRange: resolveSourceRangePath(elementPath, resolvedSlot.sourceRange)
+  };
+}
+
+function serializeCssVariable(resolvedVariable: ResolvedCssVariable):
+    CssVariable {
+  const variable: CssVariable = {name: resolvedVariable.name};
+  if (resolvedVariable.type) {
+    variable.type = resolvedVariable.type;
+  }
+  if (resolvedVariable.description) {
+    variable.description = resolvedVariable.description;
+  }
+  if (resolvedVariable.fallbackBehavior) {
+    variable.fallbackBehavior = resolvedVariable.fallbackBehavior;
+  }
+  return variable;
+}
+
 function serializeAttribute(
     resolvedElement: ResolvedElement, elementPath: string,
     resolvedAttribute: ResolvedAttribute): Attribute {
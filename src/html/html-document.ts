@@ -16,7 +16,7 @@ import * as dom5 from 'dom5';
 import * as parse5 from 'parse5';
 import {ASTNode} from 'parse5';
 
-import {SourceRange} from '../model/model';
+import {Position as SourcePosition, SourceRange, getLineStarts, positionForOffset} from '../model/model';
 import {Options, ParsedDocument} from '../parser/document';
 
 /**
@@ -28,6 +28,9 @@ export interface HtmlVisitor { (node: ASTNode): void; }
 export class ParsedHtmlDocument extends ParsedDocument<ASTNode, HtmlVisitor> {
   type = 'html';
 
+  /** The offsets in `contents` at which each line starts, built lazily. */
+  private _lineStarts: number[]|undefined;
+
   constructor(from: Options<ASTNode>) {
     super(from);
   }
@@ -46,6 +49,93 @@ export class ParsedHtmlDocument extends ParsedDocument<ASTNode, HtmlVisitor> {
     });
   }
 
+  /**
+   * Like forEachNode, but also walks the contents of <template> elements,
+   * which parse5 keeps in a separate fragment rather than in childNodes.
+   */
+  forEachNodeIncludingTemplates(callback: (node: ASTNode) => void) {
+    walkIncludingTemplates(this.ast, callback);
+  }
+
+  /**
+   * The range of `node`'s tag name in its start tag, or in its end tag if
+   * `inEndTag` is true.
+   */
+  sourceRangeForTagName(node: ASTNode, inEndTag = false): SourceRange
+      |undefined {
+    const tagLocation: parse5.LocationInfo = inEndTag ?
+        node.__location && node.__location['endTag'] :
+        getStartTagLocation(node);
+    if (!tagLocation) {
+      return;
+    }
+    // parse5's columns are one based, and point at the `<` or `</`.
+    const start = {
+      line: tagLocation.line - 1,
+      column: tagLocation.col + (inEndTag ? 1 : 0)
+    };
+    return {
+      file: this.url,
+      start,
+      end: {line: start.line, column: start.column + node.nodeName.length}
+    };
+  }
+
+  sourceRangeForAttributeName(node: ASTNode, attrName: string): SourceRange
+      |undefined {
+    const location = this._getAttributeLocation(node, attrName);
+    if (!location) {
+      return;
+    }
+    const start = {line: location.line - 1, column: location.col - 1};
+    return {
+      file: this.url,
+      start,
+      end: {line: start.line, column: start.column + attrName.length}
+    };
+  }
+
+  sourceRangeForAttributeValue(node: ASTNode, attrName: string): SourceRange
+      |undefined {
+    const location = this._getAttributeLocation(node, attrName);
+    const value = dom5.getAttribute(node, attrName);
+    if (!location || value == null) {
+      return;
+    }
+    const attributeText =
+        this.contents.substring(location.startOffset, location.endOffset);
+    // Skip over the name, the `=` and the opening quote, if any.
+    const prefix = /^[^=]*=\s*["']?/.exec(attributeText);
+    if (!prefix) {
+      return;
+    }
+    const start = {
+      line: location.line - 1,
+      column: location.col - 1 + prefix[0].length
+    };
+    return {
+      file: this.url,
+      start,
+      end: {line: start.line, column: start.column + value.length}
+    };
+  }
+
+  private _getAttributeLocation(node: ASTNode, attrName: string):
+      parse5.LocationInfo|undefined {
+    const startTag = getStartTagLocation(node);
+    return startTag && startTag.attrs && startTag.attrs[attrName];
+  }
+
+  /**
+   * Converts an offset into `contents` into a line and column.
+   */
+  sourcePositionForOffset(offset: number): SourcePosition {
+    if (!this._lineStarts) {
+      this._lineStarts = getLineStarts(this.contents);
+    }
+    return positionForOffset(this._lineStarts, offset);
+  }
+
   sourceRangeForNode(node: ASTNode): SourceRange {
     if (!node || !node.__location) {
       return;
@@ -74,6 +164,27 @@ export class ParsedHtmlDocument extends ParsedDocument<ASTNode, HtmlVisitor> {
   }
 }
 
+/**
+ * parse5 gives an element without an end tag the location of its start tag.
+ */
+function getStartTagLocation(node: ASTNode): parse5.StartTagLocationInfo|
+    undefined {
+  const location = node.__location;
+  return location && (location['startTag'] || location);
+}
+
+function walkIncludingTemplates(
+    node: ASTNode, callback: (node: ASTNode) => void) {
+  callback(node);
+  for (const child of node.childNodes || []) {
+    walkIncludingTemplates(child, callback);
+  }
+  const templateContent: ASTNode|undefined = node['content'];
+  if (templateContent) {
+    walkIncludingTemplates(templateContent, callback);
+  }
+}
+
 function isElementLocationInfo(location: parse5.LocationInfo|
                                parse5.ElementLocationInfo):
     location is parse5.ElementLocationInfo {
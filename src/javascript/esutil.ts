@@ -20,6 +20,7 @@ import {ScannedEvent, SourceRange} from '../model/model';
 import {annotateEvent} from '../polymer/docs';
 import {ScannedFunction, ScannedPolymerProperty} from '../polymer/element-descriptor';
 
+import {getIdentifierName} from './ast-value';
 import * as jsdoc from './jsdoc';
 
 
@@ -134,6 +135,25 @@ export function getEventComments(node: estree.Node): ScannedEvent[] {
       .sort((ev1, ev2) => ev1.name.localeCompare(ev2.name));
 }
 
+/**
+ * Splits the superclass expression of a class, like `MixinA(MixinB(Base))`,
+ * into the names of the mixins that it applies, outermost first, and the name
+ * of the class that they're applied to.
+ */
+export function getSuperClassAndMixins(superClass: estree.Node|null):
+    {superClass?: string, mixins: string[]} {
+  const mixins: string[] = [];
+  let node = superClass;
+  while (node && node.type === 'CallExpression') {
+    const mixinName = getIdentifierName(node.callee);
+    if (mixinName) {
+      mixins.push(mixinName);
+    }
+    node = node.arguments[0];
+  }
+  return {superClass: node ? getIdentifierName(node) : undefined, mixins};
+}
+
 function getLeadingComments(node: estree.Node): string[] {
   if (!node) {
     return;
@@ -15,33 +15,130 @@
 import * as estree from 'estree';
 import {resolve as resolveUrl} from 'url';
 
-import {ScannedImport} from '../model/model';
+import {ScannedImport, Severity} from '../model/model';
 import {Visitor} from '../javascript/estree-visitor';
 import {JavaScriptDocument} from '../javascript/javascript-document';
 import {JavaScriptScanner} from '../javascript/javascript-scanner';
+import {UrlResolver} from '../url-loader/url-resolver';
 
+/**
+ * Finds the modules that a JavaScript module imports: with `import`
+ * declarations, re-exports like `export {a} from './a.js'`, and dynamic
+ * `import()` calls of literal specifiers, which are lazy imports.
+ *
+ * Imports that can't be resolved to a URL, including `import()` calls of
+ * computed specifiers, get an `unresolvable-import` warning, and nothing is
+ * loaded for them.
+ *
+ * Note: the bundled version of espree can't parse `import()`, so documents
+ * that it parses never have any dynamic imports. They're found in ASTs that
+ * represent them as calls of an `Import` node, as newer parsers do.
+ */
 export class JavaScriptImportScanner implements JavaScriptScanner {
+  private _urlResolver: UrlResolver|undefined;
+
+  /**
+   * @param urlResolver Resolves bare specifiers like `foo`, if it can, e.g. an
+   * `NpmUrlResolver`. They're unresolvable otherwise.
+   */
+  constructor(urlResolver?: UrlResolver) {
+    this._urlResolver = urlResolver;
+  }
+
   async scan(
       document: JavaScriptDocument,
       visit: (visitor: Visitor) => Promise<void>): Promise<ScannedImport[]> {
     const imports: ScannedImport[] = [];
+    const addImport =
+        (type: string, specifier: string|undefined, source: estree.Node,
+         node: estree.Node) => {
+          const url = specifier === undefined ?
+              undefined :
+              this._resolveSpecifier(specifier, document.url);
+          const scannedImport =
+              new ScannedImport(type, url, document.sourceRangeForNode(node));
+          if (url === undefined) {
+            scannedImport.warnings.push({
+              code: 'unresolvable-import',
+              message: this._getUnresolvableMessage(specifier),
+              sourceRange: document.sourceRangeForNode(source),
+              severity: Severity.WARNING
+            });
+          }
+          imports.push(scannedImport);
+        };
 
     await visit({
       enterImportDeclaration(node: estree.ImportDeclaration, _: estree.Node) {
-        const source = node.source.value as string;
-        if (!isPathImport(source)) {
-          // TODO(justinfagnani): push a warning
+        addImport('js-import', node.source.value as string, node.source, node);
+      },
+      enterExportNamedDeclaration(
+          node: estree.ExportNamedDeclaration, _: estree.Node) {
+        if (node.source) {
+          addImport(
+              'js-import', node.source.value as string, node.source, node);
+        }
+      },
+      enterExportAllDeclaration(
+          node: estree.ExportAllDeclaration, _: estree.Node) {
+        addImport('js-import', node.source.value as string, node.source, node);
+      },
+      enterCallExpression(node: estree.CallExpression, _: estree.Node) {
+        if ((node.callee.type as string) !== 'Import') {
           return;
         }
-        const importUrl = resolveUrl(document.url, source);
-        imports.push(new ScannedImport(
-            'js-import', importUrl, document.sourceRangeForNode(node)));
+        const argument = node.arguments[0];
+        addImport(
+            'lazy-js-import', argument && getLiteralString(argument),
+            argument || node, node);
       }
     });
     return imports;
   }
+
+  private _resolveSpecifier(specifier: string, importerUrl: string):
+      string|undefined {
+    if (isUrlSpecifier(specifier)) {
+      return resolveUrl(importerUrl, specifier);
+    }
+    if (this._urlResolver && this._urlResolver.resolveImport) {
+      return this._urlResolver.resolveImport(specifier, importerUrl);
+    }
+    return undefined;
+  }
+
+  private _getUnresolvableMessage(specifier: string|undefined): string {
+    if (specifier === undefined) {
+      return `Unable to resolve a dynamic import of a computed specifier.`;
+    }
+    if (this._urlResolver && this._urlResolver.resolveImport) {
+      return `Unable to resolve the import of \`${specifier}\`. ` +
+          `Is it installed?`;
+    }
+    return `Unable to resolve the import of \`${specifier}\`. Bare module ` +
+        `specifiers need a UrlResolver that can resolve them, like ` +
+        `NpmUrlResolver.`;
+  }
+}
+
+/**
+ * Whether an import specifier is a URL, relative or absolute, rather than a
+ * bare specifier like `foo` that only a resolver knows the meaning of.
+ */
+function isUrlSpecifier(specifier: string): boolean {
+  return /^(\/|\.\/|\.\.\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
 }
 
-function isPathImport(source: string): boolean {
-  return /^(\/|\.\/|\.\.\/)/.test(source);
+/**
+ * The value of a string literal, or of a template literal without any
+ * substitutions.
+ */
+function getLiteralString(node: estree.Node): string|undefined {
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked;
+  }
+  return undefined;
 }
@@ -35,16 +35,24 @@ export class JavaScriptParser implements Parser<JavaScriptDocument> {
     this.sourceType = options.sourceType;
   }
 
+  /**
+   * Parses a document as the parser's `sourceType`. A script that has
+   * `import` or `export` declarations is parsed as a module instead, since
+   * neither a `.js` file nor an inline script says which one it is.
+   */
   parse(contents: string, url: string): JavaScriptDocument {
     let ast: Program;
     try {
-      ast = <Program>espree.parse(contents, {
-        ecmaVersion: 7,
-        attachComment: true,
-        comment: true,
-        loc: true,
-        sourceType: this.sourceType,
-      });
+      try {
+        ast = parse(contents, this.sourceType);
+      } catch (err) {
+        if (this.sourceType === 'script' && err instanceof SyntaxError &&
+            moduleOnlySyntax.test(err.message)) {
+          ast = parse(contents, 'module');
+        } else {
+          throw err;
+        }
+      }
     } catch (err) {
       if (err instanceof SyntaxError) {
         throw new WarningCarryingException({
@@ -64,3 +72,18 @@ export class JavaScriptParser implements Parser<JavaScriptDocument> {
     return new JavaScriptDocument({url, contents, ast});
   }
 }
+
+/**
+ * Matches espree's error for module declarations in a script.
+ */
+const moduleOnlySyntax = /may appear only with 'sourceType: module'/;
+
+function parse(contents: string, sourceType: 'module' | 'script'): Program {
+  return <Program>espree.parse(contents, {
+    ecmaVersion: 7,
+    attachComment: true,
+    comment: true,
+    loc: true,
+    sourceType,
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Attribute, Element} from './model/model';
+import {propertyToAttributeName} from './polymer/element-descriptor';
+
+/**
+ * Attributes that every HTML element accepts.
+ */
+export const globalAttributes = new Set([
+  'accesskey',
+  'autocapitalize',
+  'autofocus',
+  'class',
+  'contenteditable',
+  'dir',
+  'draggable',
+  'exportparts',
+  'hidden',
+  'id',
+  'inputmode',
+  'is',
+  'itemid',
+  'itemprop',
+  'itemref',
+  'itemscope',
+  'itemtype',
+  'lang',
+  'nonce',
+  'part',
+  'role',
+  'slot',
+  'spellcheck',
+  'style',
+  'tabindex',
+  'title',
+  'translate'
+]);
+
+/**
+ * Events that any element can fire, including Polymer's gesture events.
+ */
+export const nativeEvents = new Set([
+  'abort',
+  'animationend',
+  'animationiteration',
+  'animationstart',
+  'blur',
+  'change',
+  'click',
+  'contextmenu',
+  'dblclick',
+  'down',
+  'drag',
+  'dragend',
+  'dragenter',
+  'dragleave',
+  'dragover',
+  'dragstart',
+  'drop',
+  'error',
+  'focus',
+  'focusin',
+  'focusout',
+  'input',
+  'keydown',
+  'keypress',
+  'keyup',
+  'load',
+  'mousedown',
+  'mouseenter',
+  'mouseleave',
+  'mousemove',
+  'mouseout',
+  'mouseover',
+  'mouseup',
+  'pointercancel',
+  'pointerdown',
+  'pointerenter',
+  'pointerleave',
+  'pointermove',
+  'pointerout',
+  'pointerover',
+  'pointerup',
+  'resize',
+  'scroll',
+  'select',
+  'submit',
+  'tap',
+  'touchcancel',
+  'touchend',
+  'touchmove',
+  'touchstart',
+  'track',
+  'transitionend',
+  'up',
+  'wheel'
+]);
+
+/**
+ * The attributes that can be set on an element, own and inherited: those that
+ * it declares, and those of its properties that it doesn't declare one for.
+ */
+export function getAttributesOf(element: Element): Attribute[] {
+  const attributes = element.attributes.slice();
+  const names = new Set(attributes.map((a) => a.name));
+  for (const property of element.properties) {
+    const name = propertyToAttributeName(property.name);
+    if (name && property.type !== 'Function' && !names.has(name)) {
+      names.add(name);
+      attributes.push({
+        name,
+        description: property.description,
+        type: property.type,
+        sourceRange: property.sourceRange,
+        inheritedFrom: property.inheritedFrom
+      });
+    }
+  }
+  return attributes;
+}
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+export interface Message {
+  jsonrpc: '2.0';
+  id?: number|string|null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: ResponseError;
+}
+
+export interface ResponseError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export enum ErrorCode {
+  ParseError = -32700,
+  InvalidRequest = -32600,
+  MethodNotFound = -32601,
+  InvalidParams = -32602,
+  InternalError = -32603,
+  // Defined by the Language Server Protocol.
+  ServerNotInitialized = -32002,
+}
+
+/**
+ * Thrown by a request handler to respond with a specific JSON-RPC error.
+ */
+export class ResponseErrorException extends Error {
+  code: ErrorCode;
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export type RequestHandler = (params: any) => any;
+export type NotificationHandler = (params: any) => void | Promise<void>;
+export type ErrorHandler = (error: any) => void;
+
+const headerSeparator = '\r\n\r\n';
+
+/**
+ * A JSON-RPC 2.0 connection over a pair of streams, using the
+ * `Content-Length` header framing of the Language Server Protocol.
+ */
+export class JsonRpcConnection {
+  private _output: NodeJS.WritableStream;
+  private _buffer = new Buffer(0);
+  private _requestHandlers = new Map<string, RequestHandler>();
+  private _notificationHandlers = new Map<string, NotificationHandler>();
+  private _errorHandler: ErrorHandler|undefined;
+
+  constructor(input: NodeJS.ReadableStream, output: NodeJS.WritableStream) {
+    this._output = output;
+    input.on('data', (chunk: Buffer | string) => this._onData(chunk));
+  }
+
+  /**
+   * Registers the handler for requests with the given method. The handler's
+   * result, or the result of the Promise that it returns, is the response.
+   */
+  onRequest(method: string, handler: RequestHandler) {
+    this._requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler) {
+    this._notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * Registers the handler for errors from notification handlers, which have
+   * no response to report them in.
+   */
+  onError(handler: ErrorHandler) {
+    this._errorHandler = handler;
+  }
+
+  sendNotification(method: string, params?: any) {
+    this._send({jsonrpc: '2.0', method, params});
+  }
+
+  private _onData(chunk: Buffer|string) {
+    const data = typeof chunk === 'string' ? new Buffer(chunk, 'utf8') : chunk;
+    this._buffer = Buffer.concat([this._buffer, data]);
+    while (true) {
+      const headerEnd = this._buffer.indexOf(headerSeparator);
+      if (headerEnd === -1) {
+        return;
+      }
+      const headers = this._buffer.toString('ascii', 0, headerEnd);
+      const match = /Content-Length: *(\d+)/i.exec(headers);
+      const bodyStart = headerEnd + headerSeparator.length;
+      if (!match) {
+        // Without a length we can't know where the message ends, so skip
+        // the headers and hope that the stream recovers.
+        this._buffer = this._buffer.slice(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + parseInt(match[1], 10);
+      if (this._buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this._buffer.toString('utf8', bodyStart, bodyEnd);
+      this._buffer = this._buffer.slice(bodyEnd);
+      this._handleBody(body);
+    }
+  }
+
+  private _handleBody(body: string) {
+    let message: Message;
+    try {
+      message = JSON.parse(body);
+    } catch (e) {
+      this._sendError(null, ErrorCode.ParseError, `Invalid JSON: ${e.message}`);
+      return;
+    }
+    if (message.method == null) {
+      // We never send requests, so there are no responses to handle.
+      return;
+    }
+    if (message.id == null) {
+      this._handleNotification(message);
+    } else {
+      this._handleRequest(message);
+    }
+  }
+
+  private async _handleNotification(message: Message) {
+    const handler = this._notificationHandlers.get(message.method);
+    if (!handler) {
+      return;
+    }
+    // One bad notification shouldn't stop us from handling the rest.
+    try {
+      await handler(message.params);
+    } catch (err) {
+      if (this._errorHandler) {
+        this._errorHandler(err);
+      }
+    }
+  }
+
+  private async _handleRequest(message: Message) {
+    const handler = this._requestHandlers.get(message.method);
+    if (!handler) {
+      this._sendError(
+          message.id, ErrorCode.MethodNotFound,
+          `Unhandled method ${message.method}`);
+      return;
+    }
+    let result: any;
+    try {
+      result = await handler(message.params);
+    } catch (err) {
+      const code = err instanceof ResponseErrorException ?
+          err.code :
+          ErrorCode.InternalError;
+      this._sendError(message.id, code, (err && err.message) || `${err}`);
+      return;
+    }
+    // A response must have a result, and undefined is dropped by JSON.
+    this._send({
+      jsonrpc: '2.0',
+      id: message.id,
+      result: result === undefined ? null : result
+    });
+  }
+
+  private _sendError(id: number|string|null, code: number, message: string) {
+    this._send({jsonrpc: '2.0', id, error: {code, message}});
+  }
+
+  private _send(message: Message) {
+    const json = JSON.stringify(message);
+    this._output.write(
+        `Content-Length: ${Buffer.byteLength(json, 'utf8')}` +
+        `${headerSeparator}${json}`);
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as pathlib from 'path';
+import {parse as parseUrl} from 'url';
+
+import {EditorService, Severity, TypeaheadCompletion, Warning, WarningCarryingException} from '../editor-service';
+import {SourceRange} from '../model/model';
+import {FSUrlLoader} from '../url-loader/fs-url-loader';
+import {OverlayUrlLoader} from '../url-loader/overlay-loader';
+import {PackageUrlResolver} from '../url-loader/package-url-resolver';
+
+import {ErrorCode, JsonRpcConnection, NotificationHandler, RequestHandler, ResponseErrorException} from './json-rpc';
+
+/**
+ * The subset of Language Server Protocol types that we use.
+ */
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+export interface TextDocumentPositionParams {
+  textDocument: {uri: string};
+  position: LspPosition;
+}
+export interface Diagnostic {
+  range: LspRange;
+  severity: DiagnosticSeverity;
+  code: string;
+  source: string;
+  message: string;
+}
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+  documentation?: string;
+  sortText?: string;
+  insertText?: string;
+}
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export enum CompletionItemKind {
+  Class = 7,
+  Property = 10,
+}
+
+export enum MessageType {
+  Error = 1,
+  Warning = 2,
+  Info = 3,
+  Log = 4,
+}
+
+export enum TextDocumentSyncKind {
+  None = 0,
+  Full = 1,
+  Incremental = 2,
+}
+
+/**
+ * Exposes an EditorService over the Language Server Protocol, so that any
+ * editor with an LSP client can use it.
+ *
+ * Open documents are kept in an overlay over the filesystem, so that analysis
+ * sees unsaved changes.
+ */
+export class LanguageServer {
+  /** True once the client has asked us to shut down. */
+  shutdownRequested = false;
+
+  private _connection: JsonRpcConnection;
+  private _rootPath: string;
+  private _loader: OverlayUrlLoader;
+  private _editorService: EditorService;
+  /**
+   * The version of each open document, which is bumped whenever it changes,
+   * so that diagnostics for older versions aren't published.
+   */
+  private _versions = new Map<string, number>();
+  private _lastVersion = 0;
+
+  constructor(connection: JsonRpcConnection) {
+    this._connection = connection;
+    connection.onError(
+        (err) => this._logError(
+            `Unable to handle a notification: ${err && err.message}`));
+
+    connection.onRequest('initialize', (params) => this._initialize(params));
+    connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+    this._onRequest(
+        'textDocument/hover',
+        (params: TextDocumentPositionParams) => this._hover(params));
+    this._onRequest(
+        'textDocument/definition',
+        (params: TextDocumentPositionParams) => this._definition(params));
+    this._onRequest(
+        'textDocument/completion',
+        (params: TextDocumentPositionParams) => this._completion(params));
+
+    this._onNotification('textDocument/didOpen', (params) => {
+      this._setContents(params.textDocument.uri, params.textDocument.text);
+    });
+    this._onNotification('textDocument/didChange', (params) => {
+      // We only ask for full document syncs, so the last change has the
+      // whole document.
+      const changes = params.contentChanges;
+      this._setContents(
+          params.textDocument.uri, changes[changes.length - 1].text);
+    });
+    this._onNotification('textDocument/didSave', (params) => {
+      this._publishDiagnostics(params.textDocument.uri);
+    });
+    this._onNotification('textDocument/didClose', (params) => {
+      const uri = params.textDocument.uri;
+      this._loader.delete(this._getLocalPath(uri));
+      this._versions.delete(uri);
+      this._connection.sendNotification(
+          'textDocument/publishDiagnostics', {uri, diagnostics: []});
+    });
+  }
+
+  private get _initialized() {
+    return this._editorService !== undefined;
+  }
+
+  /**
+   * Registers a request handler that responds with an error until the client
+   * has initialized us, as the protocol requires.
+   */
+  private _onRequest(method: string, handler: RequestHandler) {
+    this._connection.onRequest(method, (params) => {
+      if (!this._initialized) {
+        throw new ResponseErrorException(
+            ErrorCode.ServerNotInitialized,
+            'The server has not been initialized.');
+      }
+      return handler(params);
+    });
+  }
+
+  /**
+   * Registers a notification handler that ignores notifications until the
+   * client has initialized us, as the protocol requires.
+   */
+  private _onNotification(method: string, handler: NotificationHandler) {
+    this._connection.onNotification(method, (params) => {
+      if (this._initialized) {
+        return handler(params);
+      }
+    });
+  }
+
+  private _initialize(params: any) {
+    let rootPath: string = params.rootPath;
+    if (params.rootUri) {
+      rootPath = decodeURIComponent(parseUrl(params.rootUri).pathname);
+    }
+    if (!rootPath) {
+      throw new ResponseErrorException(
+          ErrorCode.InvalidParams,
+          'The polymer-analyzer language server requires a workspace root.');
+    }
+    this._rootPath = rootPath;
+    this._loader = new OverlayUrlLoader(new FSUrlLoader(rootPath));
+    this._editorService = new EditorService(
+        {urlLoader: this._loader, urlResolver: new PackageUrlResolver()});
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Full,
+        hoverProvider: true,
+        definitionProvider: true,
+        completionProvider:
+            {resolveProvider: false, triggerCharacters: ['<', ' ']},
+      }
+    };
+  }
+
+  private async _hover(params: TextDocumentPositionParams) {
+    const documentation = await this._editorService.getDocumentationFor(
+        this._getLocalPath(params.textDocument.uri),
+        convertPosition(params.position));
+    if (!documentation) {
+      return null;
+    }
+    return {contents: documentation};
+  }
+
+  private async _definition(params: TextDocumentPositionParams):
+      Promise<LspLocation|null> {
+    const sourceRange = await this._editorService.getDefinitionFor(
+        this._getLocalPath(params.textDocument.uri),
+        convertPosition(params.position));
+    if (!sourceRange) {
+      return null;
+    }
+    return {
+      uri: this._getUri(sourceRange.file),
+      range: convertSourceRange(sourceRange)
+    };
+  }
+
+  private async _completion(params: TextDocumentPositionParams) {
+    const completions = await this._editorService.getTypeaheadCompletionsFor(
+        this._getLocalPath(params.textDocument.uri),
+        convertPosition(params.position));
+    return {isIncomplete: false, items: convertCompletions(completions)};
+  }
+
+  private _setContents(uri: string, contents: string) {
+    const localPath = this._getLocalPath(uri);
+    this._versions.set(uri, ++this._lastVersion);
+    this._loader.set(localPath, contents);
+    this._publishDiagnostics(uri);
+  }
+
+  /**
+   * Publishes the warnings for a document, unless it changes while they're
+   * being found, in which case they're published for the newer version.
+   */
+  private _publishDiagnostics(uri: string) {
+    this._publishDiagnosticsForVersion(uri, this._versions.get(uri))
+        .catch(
+            (err) => this._logError(
+                `Unable to publish diagnostics for ${uri}: ` +
+                `${err && err.message}`));
+  }
+
+  private async _publishDiagnosticsForVersion(
+      uri: string, version: number|undefined) {
+    const localPath = this._getLocalPath(uri);
+    let warnings: Warning[];
+    try {
+      warnings = await this._editorService.getWarningsFor(localPath);
+    } catch (err) {
+      if (!(err instanceof WarningCarryingException)) {
+        this._logError(`Unable to analyze ${localPath}: ${err && err.message}`);
+        return;
+      }
+      warnings = [err.warning];
+    }
+    if (this._versions.get(uri) !== version) {
+      return;
+    }
+    const warningsInDocument = warnings.filter(
+        w => !w.sourceRange || !w.sourceRange.file ||
+            w.sourceRange.file === localPath);
+    const diagnostics = warningsInDocument.map(convertWarning);
+    this._connection.sendNotification(
+        'textDocument/publishDiagnostics', {uri, diagnostics});
+  }
+
+  /**
+   * Tells the user about an error, when there's no request to respond to with
+   * it.
+   */
+  private _logError(message: string) {
+    this._connection.sendNotification(
+        'window/logMessage', {type: MessageType.Error, message});
+  }
+
+  /**
+   * Converts an LSP document uri into a path relative to the workspace root,
+   * which is what the EditorService works with.
+   */
+  private _getLocalPath(uri: string): string {
+    const fsPath = decodeURIComponent(parseUrl(uri).pathname);
+    return pathlib.relative(this._rootPath, fsPath);
+  }
+
+  private _getUri(localPath: string): string {
+    const fsPath = pathlib.resolve(this._rootPath, localPath);
+    const segments = fsPath.split(pathlib.sep).map(encodeURIComponent);
+    return `file://${segments.join('/')}`;
+  }
+}
+
+function convertPosition(position: LspPosition) {
+  return {line: position.line, column: position.character};
+}
+
+function convertSourceRange(sourceRange: SourceRange): LspRange {
+  return {
+    start: {line: sourceRange.start.line, character: sourceRange.start.column},
+    end: {line: sourceRange.end.line, character: sourceRange.end.column}
+  };
+}
+
+function convertWarning(warning: Warning): Diagnostic {
+  const range = warning.sourceRange ?
+      convertSourceRange(warning.sourceRange) :
+      {start: {line: 0, character: 0}, end: {line: 0, character: 0}};
+  return {
+    range,
+    severity: convertSeverity(warning.severity),
+    code: warning.code,
+    source: 'polymer-analyzer',
+    message: warning.message
+  };
+}
+
+function convertSeverity(severity: Severity): DiagnosticSeverity {
+  switch (severity) {
+    case Severity.ERROR:
+      return DiagnosticSeverity.Error;
+    case Severity.WARNING:
+      return DiagnosticSeverity.Warning;
+    case Severity.INFO:
+      return DiagnosticSeverity.Information;
+    default:
+      throw new Error(`Unknown severity: ${severity}`);
+  }
+}
+
+function convertCompletions(completions: TypeaheadCompletion|
+                            undefined): CompletionItem[] {
+  if (!completions) {
+    return [];
+  }
+  if (completions.kind === 'element-tags') {
+    return completions.elements.map(e => ({
+                                      label: e.tagname,
+                                      kind: CompletionItemKind.Class,
+                                      documentation: e.description,
+                                      insertText: e.expandTo || e.tagname
+                                    }));
+  }
+  return completions.attributes.map(a => ({
+                                      label: a.name,
+                                      kind: CompletionItemKind.Property,
+                                      detail: a.type,
+                                      documentation: a.description,
+                                      sortText: a.sortKey
+                                    }));
+}
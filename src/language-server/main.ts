@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {JsonRpcConnection} from './json-rpc';
+import {LanguageServer} from './language-server';
+
+const connection = new JsonRpcConnection(process.stdin, process.stdout);
+const server = new LanguageServer(connection);
+connection.onNotification('exit', () => {
+  process.exit(server.shutdownRequested ? 0 : 1);
+});
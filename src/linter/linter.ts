@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Document, Severity, Warning} from '../model/model';
+
+import {Rule} from './rule';
+import {RuleRegistry, createBuiltInRegistry} from './rule-registry';
+
+/**
+ * How to run one rule.
+ */
+export interface RuleConfig {
+  /** Defaults to true. */
+  enabled?: boolean;
+
+  /**
+   * Overrides the severity of the rule's warnings, e.g. to make a rule's
+   * findings errors in CI.
+   */
+  severity?: Severity;
+}
+
+export interface Options {
+  /** The rules to choose from. Defaults to the built-in rules. */
+  registry?: RuleRegistry;
+
+  /**
+   * Configuration for rules by their codes. Rules that aren't mentioned are
+   * enabled with their own severities.
+   */
+  rules?: {[code: string]: RuleConfig};
+}
+
+/**
+ * Runs the enabled rules of a registry against analyzed documents.
+ */
+export class Linter {
+  private _registry: RuleRegistry;
+  private _config: {[code: string]: RuleConfig};
+
+  constructor(options: Options = {}) {
+    this._registry = options.registry || createBuiltInRegistry();
+    this._config = options.rules || {};
+    for (const code of Object.keys(this._config)) {
+      if (!this._registry.get(code)) {
+        throw new Error(`Unknown lint rule: \`${code}\`.`);
+      }
+    }
+  }
+
+  /**
+   * Returns the rules that `lint` runs, in the order that they run.
+   */
+  getEnabledRules(): Rule[] {
+    return this._registry.getAll().filter((rule) => {
+      const config = this._config[rule.code];
+      return !config || config.enabled !== false;
+    });
+  }
+
+  /**
+   * Returns the warnings of every enabled rule for `document`, with their
+   * severities adjusted by the configuration.
+   */
+  lint(document: Document): Warning[] {
+    let warnings: Warning[] = [];
+    for (const rule of this.getEnabledRules()) {
+      const config = this._config[rule.code] || {};
+      let ruleWarnings = rule.check(document);
+      if (config.severity !== undefined) {
+        ruleWarnings = ruleWarnings.map(
+            (warning) =>
+                Object.assign({}, warning, {severity: config.severity}));
+      }
+      warnings = warnings.concat(ruleWarnings);
+    }
+    return warnings;
+  }
+}
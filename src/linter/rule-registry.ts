@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Rule} from './rule';
+import {UndefinedElements} from './rules/undefined-elements';
+import {UnknownAttributes} from './rules/unknown-attributes';
+
+/**
+ * The rules that are available to a Linter, keyed by their codes.
+ */
+export class RuleRegistry {
+  private _rules = new Map<string, Rule>();
+
+  constructor(rules: Iterable<Rule> = []) {
+    for (const rule of rules) {
+      this.register(rule);
+    }
+  }
+
+  register(rule: Rule): void {
+    if (this._rules.has(rule.code)) {
+      throw new Error(
+          `A rule with code \`${rule.code}\` is already registered.`);
+    }
+    this._rules.set(rule.code, rule);
+  }
+
+  get(code: string): Rule|undefined {
+    return this._rules.get(code);
+  }
+
+  /**
+   * Returns every registered rule, in the order that they were registered.
+   */
+  getAll(): Rule[] {
+    return Array.from(this._rules.values());
+  }
+}
+
+/**
+ * The rules that come with the analyzer.
+ */
+const builtInRules: Rule[] = [new UndefinedElements(), new UnknownAttributes()];
+
+/**
+ * Returns a new registry of the built-in rules, which custom rules can be
+ * added to.
+ */
+export function createBuiltInRegistry(): RuleRegistry {
+  return new RuleRegistry(builtInRules);
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Document, Warning} from '../model/model';
+
+/**
+ * A check that the Linter runs against a resolved document.
+ */
+export interface Rule {
+  /**
+   * Identifies the rule in configuration, and is the `code` of the warnings
+   * that it reports.
+   */
+  code: string;
+
+  /** A short explanation of what the rule checks for. */
+  description: string;
+
+  /**
+   * Returns the problems that the rule finds in `document`, which is usually
+   * the root of a dependency graph.
+   */
+  check(document: Document): Warning[];
+}
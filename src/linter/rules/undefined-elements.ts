@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+
+import {Document, Severity, Warning} from '../../model/model';
+import {Rule} from '../rule';
+import {getHtmlDocuments} from '../util';
+
+/**
+ * Hyphenated names that the HTML spec reserves for SVG and MathML, plus the
+ * `<dom-module>`, which Polymer registers imperatively, so we never find its
+ * definition.
+ */
+const ignoredTagNames = new Set([
+  'annotation-xml', 'color-profile', 'font-face', 'font-face-src',
+  'font-face-uri', 'font-face-format', 'font-face-name', 'missing-glyph',
+  'dom-module'
+]);
+
+/**
+ * Warns about custom element tags in HTML documents, including in their
+ * templates, that aren't defined by the document or anything that it imports.
+ *
+ * Each document is checked against its own imports, not the root's, so an
+ * element that only works because some other file happened to import its
+ * definition is still reported.
+ */
+export class UndefinedElements implements Rule {
+  code = 'undefined-elements';
+  description =
+      'Warns about custom elements that are used without being imported.';
+
+  check(document: Document): Warning[] {
+    const warnings: Warning[] = [];
+    for (const {document: htmlDocument,
+                parsedDocument} of getHtmlDocuments(document)) {
+      parsedDocument.forEachNodeIncludingTemplates((node) => {
+        if (!dom5.isElement(node)) {
+          return;
+        }
+        const tagName = node.nodeName;
+        if (tagName.indexOf('-') === -1 || ignoredTagNames.has(tagName) ||
+            htmlDocument.getById('element', tagName).size > 0) {
+          return;
+        }
+        warnings.push({
+          message: `The element <${tagName}> is not defined by ` +
+              `${htmlDocument.url} or anything that it imports.`,
+          sourceRange: parsedDocument.sourceRangeForTagName(node) ||
+              parsedDocument.sourceRangeForNode(node),
+          severity: Severity.WARNING,
+          code: this.code
+        });
+      });
+    }
+    return warnings;
+  }
+}
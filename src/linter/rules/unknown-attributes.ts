@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+
+import {getAttributesOf, globalAttributes, nativeEvents} from '../../known-attributes';
+import {Document, Element, Severity, Warning} from '../../model/model';
+import {editDistance} from '../../utils';
+import {Rule} from '../rule';
+import {getHtmlDocuments} from '../util';
+
+/**
+ * Warns about attributes on custom elements that the elements don't declare,
+ * either as attributes or as properties, and about `on-*` listeners for
+ * events that they never fire. Suggests the closest declared name.
+ *
+ * Elements that aren't defined at all are left to the `undefined-elements`
+ * rule.
+ */
+export class UnknownAttributes implements Rule {
+  code = 'unknown-attributes';
+  description = 'Warns about misspelled attributes and event listeners on ' +
+      'custom elements.';
+
+  check(document: Document): Warning[] {
+    const warnings: Warning[] = [];
+    for (const {document: htmlDocument,
+                parsedDocument} of getHtmlDocuments(document)) {
+      parsedDocument.forEachNodeIncludingTemplates((node) => {
+        if (!dom5.isElement(node) || node.nodeName.indexOf('-') === -1) {
+          return;
+        }
+        const elements = htmlDocument.getById('element', node.nodeName);
+        if (elements.size === 0) {
+          return;
+        }
+        const {attributes, events} = getKnownNames(elements);
+        for (const attr of node.attrs) {
+          const warning = this._checkAttribute(
+              node.nodeName, attr.name, attributes, events);
+          if (warning) {
+            warnings.push({
+              message: warning,
+              sourceRange:
+                  parsedDocument.sourceRangeForAttributeName(node, attr.name),
+              severity: Severity.WARNING,
+              code: this.code
+            });
+          }
+        }
+      });
+    }
+    return warnings;
+  }
+
+  /**
+   * Returns the message to warn with about an attribute, if any.
+   */
+  private _checkAttribute(
+      tagName: string, attrName: string, attributes: Set<string>,
+      events: Set<string>): string|undefined {
+    if (attrName.startsWith('on-')) {
+      const eventName = attrName.slice('on-'.length);
+      if (events.has(eventName) || nativeEvents.has(eventName)) {
+        return;
+      }
+      return `<${tagName}> never fires \`${eventName}\` events.` +
+          didYouMean(eventName, [...events, ...nativeEvents]);
+    }
+    // `foo$="[[bar]]"` binds to the `foo` attribute.
+    const name = attrName.replace(/\$$/, '');
+    if (attributes.has(name) || globalAttributes.has(name) ||
+        /^(data|aria)-/.test(name) || /^on[a-z]+$/.test(name)) {
+      return;
+    }
+    return `<${tagName}> has no attribute or property named \`${name}\`.` +
+        didYouMean(name, attributes);
+  }
+}
+
+/**
+ * The attribute names, including those of properties, and the event names
+ * of the given definitions of an element.
+ */
+function getKnownNames(elements: Iterable<Element>):
+    {attributes: Set<string>, events: Set<string>} {
+  const attributes = new Set<string>();
+  const events = new Set<string>();
+  for (const element of elements) {
+    for (const attribute of getAttributesOf(element)) {
+      attributes.add(attribute.name);
+    }
+    for (const event of element.events) {
+      events.add(event.name);
+    }
+  }
+  return {attributes, events};
+}
+
+/**
+ * Suggests the candidate closest to `name`, if any is close enough to be a
+ * plausible misspelling.
+ */
+function didYouMean(name: string, candidates: Iterable<string>): string {
+  let best: string|undefined;
+  let bestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` Did you mean \`${best}\`?` : '';
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ParsedHtmlDocument} from '../html/html-document';
+import {Document} from '../model/model';
+
+/**
+ * The HTML documents in `document`'s dependency graph, including `document`
+ * itself if it's HTML, with their parsed documents.
+ */
+export function getHtmlDocuments(document: Document):
+    {document: Document, parsedDocument: ParsedHtmlDocument}[] {
+  const results: {document: Document, parsedDocument: ParsedHtmlDocument}[] =
+      [];
+  for (const doc of new Set([document, ...document.getByKind('document')])) {
+    if (!doc.isInline && doc.parsedDocument instanceof ParsedHtmlDocument) {
+      results.push({document: doc, parsedDocument: doc.parsedDocument});
+    }
+  }
+  return results;
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Behavior} from '../polymer/behavior-descriptor';
+import {CssCustomProperty} from '../polymer/css-custom-property-scanner';
+import {Databinding} from '../polymer/databinding-scanner';
+import {DomModule} from '../polymer/dom-module-scanner';
+import {PolymerElement} from '../polymer/element-descriptor';
+import {Mixin} from '../polymer/mixin-descriptor';
+
+import {Document, ScannedDocument} from './document';
+import {Element} from './element';
+import {Feature, ScannedFeature} from './feature';
+import {Import} from './import';
+import {Warning} from './warning';
+
+/**
+ * The combined result of analyzing several root documents, e.g. the shell and
+ * the lazily loaded fragments of an app.
+ *
+ * Each root is resolved as its own dependency graph, so a feature is resolved
+ * against only the documents that its root can reach. Features that are
+ * reachable from more than one root are deduplicated: the first root (in the
+ * order given) that reaches a feature provides the instance that is returned.
+ */
+export class Analysis {
+  /** The resolved root documents, in the order they were given. */
+  roots: Document[];
+
+  private _features = new Set<Feature>();
+  private _featuresByKind = new Map<string, Set<Feature>>();
+  private _featuresByKindAndId = new Map<string, Map<string, Set<Feature>>>();
+  private _rootsReaching = new Map<Feature, Document[]>();
+
+  constructor(roots: Document[]) {
+    this.roots = roots;
+    const canonicalByOrigin =
+        new Map<ScannedFeature|ScannedDocument, Feature>();
+    for (const root of roots) {
+      for (const feature of root.getFeatures()) {
+        // Every feature in a graph was resolved from something.
+        const origin = root.getOriginOf(feature);
+        let canonical = canonicalByOrigin.get(origin);
+        if (!canonical) {
+          canonical = feature;
+          canonicalByOrigin.set(origin, canonical);
+          this._addFeature(canonical);
+        }
+        const reaching = this._rootsReaching.get(canonical);
+        if (reaching.indexOf(root) === -1) {
+          reaching.push(root);
+        }
+      }
+    }
+  }
+
+  getByKind(kind: 'element'): Set<Element>;
+  getByKind(kind: 'polymer-element'): Set<PolymerElement>;
+  getByKind(kind: 'behavior'): Set<Behavior>;
+  getByKind(kind: 'mixin'): Set<Mixin>;
+  getByKind(kind: 'dom-module'): Set<DomModule>;
+  getByKind(kind: 'databinding'): Set<Databinding>;
+  getByKind(kind: 'css-custom-property'): Set<CssCustomProperty>;
+  getByKind(kind: 'document'): Set<Document>;
+  getByKind(kind: 'import'): Set<Import>;
+  getByKind(kind: string): Set<Feature>;
+  getByKind(kind: string): Set<Feature> {
+    return this._featuresByKind.get(kind) || new Set();
+  }
+
+  getById(kind: 'element', tagName: string): Set<Element>;
+  getById(kind: 'polymer-element', tagName: string): Set<PolymerElement>;
+  getById(kind: 'behavior', className: string): Set<Behavior>;
+  getById(kind: 'mixin', className: string): Set<Mixin>;
+  getById(kind: 'dom-module', idAttr: string): Set<DomModule>;
+  getById(kind: 'databinding', domModuleId: string): Set<Databinding>;
+  getById(kind: 'css-custom-property', domModuleId: string):
+      Set<CssCustomProperty>;
+  getById(kind: 'document', url: string): Set<Document>;
+  getById(kind: string, identifier: string): Set<Feature>;
+  getById(kind: string, identifier: string): Set<Feature> {
+    const idMap = this._featuresByKindAndId.get(kind);
+    return (idMap && idMap.get(identifier)) || new Set();
+  }
+
+  getOnlyAtId(kind: 'element', tagName: string): Element|undefined;
+  getOnlyAtId(kind: 'polymer-element', tagName: string): PolymerElement
+      |undefined;
+  getOnlyAtId(kind: 'behavior', className: string): Behavior|undefined;
+  getOnlyAtId(kind: 'mixin', className: string): Mixin|undefined;
+  getOnlyAtId(kind: 'dom-module', idAttr: string): DomModule|undefined;
+  getOnlyAtId(kind: 'document', url: string): Document|undefined;
+  getOnlyAtId(kind: string, identifier: string): Feature|undefined;
+  getOnlyAtId(kind: string, identifier: string): Feature|undefined {
+    const results = this.getById(kind, identifier);
+    if (results.size > 1) {
+      throw new Error(
+          `Expected to find at most one ${kind} with id ${identifier} ` +
+          `but found ${results.size}.`);
+    }
+    return results.values().next().value || undefined;
+  }
+
+  getFeatures(): Set<Feature> {
+    return new Set(this._features);
+  }
+
+  /**
+   * Returns the roots whose dependency graphs include `feature`, in the order
+   * that the roots were given.
+   */
+  getRootsReaching(feature: Feature): Document[] {
+    return (this._rootsReaching.get(feature) || []).slice();
+  }
+
+  /**
+   * Returns the warnings of every document reachable from any of the roots.
+   */
+  getWarnings(): Warning[] {
+    let warnings: Warning[] = [];
+    for (const document of this.getByKind('document')) {
+      // Inline documents' warnings are included in their containers'.
+      if (!document.isInline) {
+        warnings = warnings.concat(document.getWarnings());
+      }
+    }
+    return warnings;
+  }
+
+  private _addFeature(feature: Feature) {
+    this._features.add(feature);
+    this._rootsReaching.set(feature, []);
+    for (const kind of feature.kinds) {
+      const kindSet = this._featuresByKind.get(kind) || new Set<Feature>();
+      kindSet.add(feature);
+      this._featuresByKind.set(kind, kindSet);
+      for (const id of feature.identifiers) {
+        const identifiersMap = this._featuresByKindAndId.get(kind) ||
+            new Map<string, Set<Feature>>();
+        this._featuresByKindAndId.set(kind, identifiersMap);
+        const idSet = identifiersMap.get(id) || new Set<Feature>();
+        identifiersMap.set(id, idSet);
+        idSet.add(feature);
+      }
+    }
+  }
+}
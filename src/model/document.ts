@@ -12,24 +12,41 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
-import {Warning} from '../editor-service';
 import {ParsedDocument} from '../parser/document';
 import {Behavior} from '../polymer/behavior-descriptor';
+import {CssCustomProperty} from '../polymer/css-custom-property-scanner';
+import {Databinding} from '../polymer/databinding-scanner';
+import {validateDatabindings} from '../polymer/databinding-validation';
 import {DomModule} from '../polymer/dom-module-scanner';
 import {PolymerElement} from '../polymer/element-descriptor';
+import {Mixin} from '../polymer/mixin-descriptor';
 
-import {Element} from './element';
+import {Element, resolveSuperClasses} from './element';
 import {Import, ScannedImport} from './import';
+import {addImportGraphWarnings} from './import-graph';
 import {InlineParsedDocument} from './inline-document';
-import {isResolvable} from './resolvable';
+import {Resolvable, isResolvable} from './resolvable';
 import {Feature, ScannedFeature} from './feature';
 import {LocationOffset, SourceRange} from './source-range';
+import {Severity, Warning, WarningCarryingException} from './warning';
+
+/**
+ * A document whose features are known without having parsed it, e.g. because
+ * they were loaded from a cache. It's parsed the first time that its AST is
+ * needed.
+ */
+export interface UnparsedDocument {
+  url: string;
+  type: string;
+  parse(): ParsedDocument<any, any>;
+}
 
 /**
  * The metadata for all features and elements defined in one document
  */
 export class ScannedDocument {
-  document: ParsedDocument<any, any>;
+  url: string;
+  type: string;
   dependencies: ScannedDocument[];
   features: ScannedFeature[];
   locationOffset?: LocationOffset;
@@ -37,25 +54,37 @@ export class ScannedDocument {
   sourceRange: SourceRange = null;  // TODO(rictic): track this
   warnings: Warning[];
 
+  private _document: ParsedDocument<any, any>|undefined;
+  private _unparsedDocument: UnparsedDocument|undefined;
+
   constructor(
-      document: ParsedDocument<any, any>, dependencies: ScannedDocument[],
-      features: ScannedFeature[], locationOffset?: LocationOffset,
-      warnings?: Warning[]) {
-    this.document = document;
+      document: ParsedDocument<any, any>|UnparsedDocument,
+      dependencies: ScannedDocument[], features: ScannedFeature[],
+      locationOffset?: LocationOffset, warnings?: Warning[]) {
+    if (document instanceof ParsedDocument) {
+      this._document = document;
+    } else {
+      this._unparsedDocument = document;
+    }
+    this.url = document.url;
+    this.type = document.type;
     this.dependencies = dependencies;
     this.features = features;
     this.locationOffset = locationOffset;
     this.warnings = warnings || [];
   }
 
-  get url() {
-    return this.document.url;
+  get document(): ParsedDocument<any, any> {
+    if (!this._document) {
+      this._document = this._unparsedDocument.parse();
+      this._unparsedDocument = undefined;
+    }
+    return this._document;
   }
 }
 
 export class Document implements Feature {
   url: string;
-  parsedDocument: ParsedDocument<any, any>;
   isInline: boolean;
 
   kinds: Set<string>;
@@ -63,9 +92,16 @@ export class Document implements Feature {
   sourceRange: SourceRange;
 
   private _rootDocument: Document;
+  private _scannedDocument: ScannedDocument;
   private _localFeatures = new Set<Feature>();
   private _warnings: Warning[];
 
+  /**
+   * Maps each feature in the graph to the scanned feature (or scanned
+   * document) that it was resolved from. Only populated on the root document.
+   */
+  private _origins: Map<Feature, ScannedFeature|ScannedDocument> = null;
+
   /**
    * True after this document and all of its children are finished resolving.
    */
@@ -73,14 +109,18 @@ export class Document implements Feature {
 
   static makeRootDocument(scannedDocument: ScannedDocument): Document {
     const result = new Document(scannedDocument);
-    result._addFeature(result);
+    result._addFeature(result, scannedDocument);
     result._resolve(scannedDocument);
+    resolveSuperClasses(result);
+    validateDatabindings(result);
+    addImportGraphWarnings(result);
     return result;
   }
 
   private constructor(base: ScannedDocument, rootDocument?: Document) {
     if (rootDocument == null) {
       this._rootDocument = this;
+      this._origins = new Map();
       this._initIndexes();
     } else {
       if (!base.isInline) {
@@ -93,17 +133,27 @@ export class Document implements Feature {
     }
     this.url = base.url;
     this.isInline = base.isInline;
-    this.parsedDocument = base.document;
+    this._scannedDocument = base;
     this.sourceRange = base.sourceRange;
-    this._warnings = base.warnings;
+    // Copied, since warnings from resolving are added to it and the scanned
+    // document is shared with other dependency graphs.
+    this._warnings = base.warnings.slice();
 
     if (base.isInline) {
       this.identifiers = new Set();
     } else {
       this.identifiers = new Set([this.url]);
     }
-    this.kinds = new Set(['document', `${this.parsedDocument.type}-document`]);
-    this._addFeature(this);
+    this.kinds = new Set(['document', `${base.type}-document`]);
+    this._addFeature(this, base);
+  }
+
+  /**
+   * The parsed form of this document. For a document that was loaded from a
+   * cache, this parses it.
+   */
+  get parsedDocument(): ParsedDocument<any, any> {
+    return this._scannedDocument.document;
   }
 
   /**
@@ -125,16 +175,42 @@ export class Document implements Feature {
         this._resolveInlineDocument(scannedFeature);
 
       } else if (isResolvable(scannedFeature)) {
-        const feature = scannedFeature.resolve(this._rootDocument);
-        this._addFeature(feature);
+        const feature = this._resolveFeature(scannedFeature);
+        if (feature) {
+          this._addFeature(feature, scannedFeature);
+        }
       }
     }
     this._doneResolving = true;
   }
 
+  /**
+   * Resolves a scanned feature, turning any error that it throws into a
+   * warning so that one bad feature doesn't fail the analysis of the whole
+   * dependency graph.
+   */
+  private _resolveFeature(scannedFeature: ScannedFeature&Resolvable): Feature
+      |undefined {
+    try {
+      return scannedFeature.resolve(this._rootDocument);
+    } catch (error) {
+      if (error instanceof WarningCarryingException) {
+        this._warnings.push(error.warning);
+        return;
+      }
+      error = error || '';
+      this._warnings.push({
+        code: 'could-not-resolve',
+        message: `Unable to resolve feature: ${error.message || error}`,
+        sourceRange: scannedFeature.sourceRange,
+        severity: Severity.ERROR
+      });
+    }
+  }
+
   private _resolveScannedImport(scannedImport: ScannedImport) {
     const imprt = scannedImport.resolve(this._rootDocument);
-    this._addFeature(imprt);
+    this._addFeature(imprt, scannedImport);
 
     const scannedDoc = scannedImport.scannedDocument;
     if (!scannedDoc) {
@@ -144,7 +220,7 @@ export class Document implements Feature {
 
     const document = new Document(scannedDoc, this._rootDocument);
     imprt.document = document;
-    this._addFeature(document);
+    this._addFeature(document, scannedDoc);
 
     document._resolve(scannedDoc);
   }
@@ -156,14 +232,17 @@ export class Document implements Feature {
     }
     const document =
         new Document(inlineDoc.scannedDocument, this._rootDocument);
-    this._addFeature(document);
+    this._addFeature(document, inlineDoc.scannedDocument);
     document._resolve(inlineDoc.scannedDocument);
   }
 
   getByKind(kind: 'element'): Set<Element>;
   getByKind(kind: 'polymer-element'): Set<PolymerElement>;
   getByKind(kind: 'behavior'): Set<Behavior>;
+  getByKind(kind: 'mixin'): Set<Mixin>;
   getByKind(kind: 'dom-module'): Set<DomModule>;
+  getByKind(kind: 'databinding'): Set<Databinding>;
+  getByKind(kind: 'css-custom-property'): Set<CssCustomProperty>;
   getByKind(kind: 'document'): Set<Document>;
   getByKind(kind: 'import'): Set<Import>;
   getByKind(kind: string): Set<Feature>;
@@ -183,7 +262,11 @@ export class Document implements Feature {
   getById(kind: 'element', tagName: string): Set<Element>;
   getById(kind: 'polymer-element', tagName: string): Set<Document>;
   getById(kind: 'behavior', className: string): Set<Behavior>;
+  getById(kind: 'mixin', className: string): Set<Mixin>;
   getById(kind: 'dom-module', idAttr: string): Set<DomModule>;
+  getById(kind: 'databinding', domModuleId: string): Set<Databinding>;
+  getById(kind: 'css-custom-property', domModuleId: string):
+      Set<CssCustomProperty>;
   getById(kind: 'document', url: string): Set<Document>;
   getById(kind: string, identifier: string): Set<Feature>;
   getById(kind: string, identifier: string): Set<Feature> {
@@ -210,6 +293,7 @@ export class Document implements Feature {
   getOnlyAtId(kind: 'polymer-element', tagName: string): PolymerElement
       |undefined;
   getOnlyAtId(kind: 'behavior', className: string): Behavior|undefined;
+  getOnlyAtId(kind: 'mixin', className: string): Mixin|undefined;
   getOnlyAtId(kind: 'dom-module', idAttr: string): DomModule|undefined;
   getOnlyAtId(kind: 'document', url: string): Document|undefined;
   getOnlyAtId(kind: string, identifier: string): Feature|undefined;
@@ -223,9 +307,56 @@ export class Document implements Feature {
     return results.values().next().value || undefined;
   }
 
-  getWarnings(): Warning[] {
-    // TODO(rictic): crawl (local?) features and grab their warnings too.
-    return this._warnings;
+  /**
+   * Returns the scanned feature or scanned document that `feature` was
+   * resolved from.
+   *
+   * Scanned results are cached by the Analyzer and shared between every
+   * dependency graph that includes them, so features resolved from the same
+   * source in different graphs will have the same origin.
+   */
+  getOriginOf(feature: Feature): ScannedFeature|ScannedDocument|undefined {
+    return this._rootDocument._origins.get(feature);
+  }
+
+  /**
+   * Returns the warnings for this document's file: those from loading,
+   * scanning and resolving it, and those of the features resolved from it and
+   * from its inline documents.
+   *
+   * With `deep`, also includes the warnings of every document that it
+   * imports, directly or transitively.
+   */
+  getWarnings(options: {deep?: boolean} = {}): Warning[] {
+    if (!options.deep) {
+      return this._warnings.concat(this._getFeatureWarnings());
+    }
+    const documents = new Set<Document>([this]);
+    for (const document of this.getByKind('document')) {
+      // Inline documents' warnings are included in their containers'.
+      if (!document.isInline) {
+        documents.add(document);
+      }
+    }
+    let warnings: Warning[] = [];
+    for (const document of documents) {
+      warnings = warnings.concat(document.getWarnings());
+    }
+    return warnings;
+  }
+
+  private _getFeatureWarnings(): Warning[] {
+    let warnings: Warning[] = [];
+    for (const feature of this._localFeatures) {
+      if (feature instanceof Document) {
+        if (feature !== this && feature.isInline) {
+          warnings = warnings.concat(feature.getWarnings());
+        }
+      } else if (feature.warnings) {
+        warnings = warnings.concat(feature.warnings);
+      }
+    }
+    return warnings;
   }
 
   private _getByKind(kind: string, documentsWalked: Set<Document>):
@@ -248,6 +379,17 @@ export class Document implements Feature {
     return result;
   }
 
+  /**
+   * Returns the features resolved from this document itself, including its
+   * imports, the documents that they import and its inline documents, but not
+   * the features of those documents.
+   */
+  getLocalFeatures(): Set<Feature> {
+    const result = new Set(this._localFeatures);
+    result.delete(this);
+    return result;
+  }
+
   getFeatures(): Set<Feature> {
     const result = new Set<Feature>();
     this._getFeatures(result, new Set<Document>());
@@ -268,8 +410,12 @@ export class Document implements Feature {
     }
   }
 
-  private _addFeature(feature: Feature) {
+  private _addFeature(
+      feature: Feature, origin: ScannedFeature|ScannedDocument) {
     this._rootDocument._indexFeature(feature);
+    if (!this._rootDocument._origins.has(feature)) {
+      this._rootDocument._origins.set(feature, origin);
+    }
     this._localFeatures.add(feature);
   }
 
@@ -279,7 +425,7 @@ export class Document implements Feature {
 
   private _toString(documentsWalked: Set<Document>) {
     let result =
-        [`<Document type="${this.parsedDocument.type}" url="${this.url}>\n`];
+        [`<Document type="${this._scannedDocument.type}" url="${this.url}>\n`];
     if (documentsWalked.has(this)) {
       return result;
     }
@@ -16,6 +16,7 @@ import {SourceRange} from '../model/model';
 import * as jsdoc from '../javascript/jsdoc';
 
 import {Document, Event, Feature, LocationOffset, Property, Resolvable, ScannedEvent, ScannedFeature, ScannedProperty, correctSourceRange} from './model';
+import {Severity, Warning} from './warning';
 
 export {Visitor} from '../javascript/estree-visitor';
 
@@ -26,8 +27,42 @@ export interface ScannedAttribute {
   type?: string;
 }
 
+/**
+ * A CSS custom property or mixin that an element's styles use, and so that
+ * users of the element can set to theme it.
+ */
+export interface CssVariable {
+  /** The name of the variable, including its leading `--`. */
+  name: string;
+  /** e.g. `color`, or `mixin` for a mixin. */
+  type?: string;
+  description?: string;
+  /** How the element styles itself when the variable isn't set. */
+  fallbackBehavior?: string;
+  sourceRange: SourceRange;
+}
+
+/**
+ * A place in an element's shadow DOM that its light DOM children are
+ * distributed into.
+ */
+export interface Slot {
+  /**
+   * The name of the slot, or the `select` of a legacy `<content>`. Empty for
+   * the default slot.
+   */
+  name: string;
+  description?: string;
+  sourceRange: SourceRange;
+}
+
 export class ScannedElement implements ScannedFeature, Resolvable {
   tagName?: string;
+  /**
+   * The string literal that gives the element its tag name, e.g. in an `is:`
+   * property or a `customElements.define` call.
+   */
+  tagNameSourceRange?: SourceRange;
   className?: string;
   superClass?: string;
   extends?: string;
@@ -45,6 +80,8 @@ export class ScannedElement implements ScannedFeature, Resolvable {
       return;
     }
     this.sourceRange = correctSourceRange(this.sourceRange, locationOffset);
+    this.tagNameSourceRange =
+        correctSourceRange(this.tagNameSourceRange, locationOffset);
     for (const prop of this.properties) {
       prop.sourceRange = correctSourceRange(prop.sourceRange, locationOffset);
     }
@@ -62,17 +99,95 @@ export class ScannedElement implements ScannedFeature, Resolvable {
   }
 
   resolve(_document: Document): Element {
+    // Superclasses are inherited from by `resolveSuperClasses`, once the
+    // whole dependency graph has been resolved.
     const element = new Element();
     Object.assign(element, this);
     return element;
   }
 }
 
+/**
+ * Classes that custom elements commonly extend that we don't expect to have
+ * analyzed, like `HTMLElement`, `HTMLButtonElement` and `Polymer.Element`.
+ */
+const builtInSuperClass = /^((window\.)?HTML\w*Element|Polymer\.Element)$/;
+
+/**
+ * Makes every element in the dependency graph of `root` inherit the members
+ * of the element that it extends, including those that the superclass got
+ * from its own mixins and behaviors.
+ *
+ * This is done once the whole graph has been resolved, since a superclass
+ * can be declared after its subclasses.
+ */
+export function resolveSuperClasses(root: Document) {
+  const inherited = new Set<Element>();
+  const inherit = (element: Element) => {
+    if (inherited.has(element)) {
+      return;
+    }
+    inherited.add(element);
+    if (!element.superClass || builtInSuperClass.test(element.superClass)) {
+      return;
+    }
+    const superElement: Element|undefined =
+        root.getById('element', element.superClass).values().next().value;
+    if (!superElement) {
+      element.warnings.push({
+        message: `Unable to resolve superclass \`${element.superClass}\` of ` +
+            `${element.className || element.tagName}. Did you import it?`,
+        sourceRange: element.sourceRange,
+        severity: Severity.WARNING,
+        code: 'unknown-superclass'
+      });
+      return;
+    }
+    // So that it has inherited the members of its own superclass.
+    inherit(superElement);
+    const name = superElement.className || superElement.tagName;
+    element.properties = mergeByName(
+        element.properties, [{name, vals: superElement.properties}]);
+    element.attributes = mergeByName(
+        element.attributes, [{name, vals: superElement.attributes}]);
+    element.events =
+        mergeByName(element.events, [{name, vals: superElement.events}]);
+  };
+  for (const element of root.getByKind('element')) {
+    inherit(element);
+  }
+}
+
+/**
+ * Merges members inherited from other features, like behaviors or a
+ * superclass, into an element's own. Members that are already present win,
+ * and copies of the inherited ones are marked with where they came from.
+ */
+export function mergeByName<Prop extends{name: string, inheritedFrom?: string}>(
+    base: Prop[],
+    inheritFrom: {name: string, vals: {name: string}[]}[]): Prop[] {
+  const byName = new Map<string, Prop>();
+  for (const initial of base) {
+    byName.set(initial.name, initial);
+  }
+  for (const source of inheritFrom) {
+    for (const item of source.vals) {
+      if (!byName.has(item.name)) {
+        const copy = <Prop><any>Object.assign({}, item);
+        copy.inheritedFrom = source.name;
+        byName.set(copy.name, copy);
+      }
+    }
+  }
+  return Array.from(byName.values());
+}
+
 
 export interface Attribute extends ScannedAttribute { inheritedFrom?: string; }
 
 export class Element implements Feature {
   tagName?: string;
+  tagNameSourceRange?: SourceRange;
   className?: string;
   superClass?: string;
   extends?: string;
@@ -81,8 +196,11 @@ export class Element implements Feature {
   description = '';
   demos: {desc?: string; path: string}[] = [];
   events: Event[] = [];
+  cssVariables: CssVariable[] = [];
+  slots: Slot[] = [];
   sourceRange: SourceRange;
   jsdoc?: jsdoc.Annotation;
+  warnings: Warning[] = [];
   kinds: Set<string> = new Set(['element']);
   get identifiers(): Set<string> {
     const result: Set<string> = new Set();
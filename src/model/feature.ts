@@ -14,11 +14,14 @@
 
 import * as jsdoc from '../javascript/jsdoc';
 import {SourceRange} from './source-range';
+import {Warning} from './warning';
 
 export interface Feature {
   kinds: Set<string>;
   identifiers?: Set<string>;
   sourceRange: SourceRange;
+  /** Problems found while resolving this feature. */
+  warnings?: Warning[];
 }
 
 export interface ScannedFeature {
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Document} from './document';
+import {Import} from './import';
+import {Severity, Warning} from './warning';
+
+/**
+ * Checks the imports in the dependency graph of a root document, adding
+ * warnings to the offending imports for:
+ *
+ *   - cycles of HTML imports
+ *   - files that are imported under more than one URL, e.g. as both
+ *     `../paper-button/paper-button.html` and
+ *     `bower_components/paper-button/paper-button.html`
+ *   - imports of files outside of the package
+ */
+export function addImportGraphWarnings(root: Document) {
+  const importsByDocument = new Map<Document, Import[]>();
+  for (const document of [root, ...root.getByKind('document')]) {
+    if (!document.isInline) {
+      importsByDocument.set(document, getOwnImports(document));
+    }
+  }
+  addCycleWarnings(root, importsByDocument);
+  const allImports = Array.from(importsByDocument.values())
+                         .reduce((all, imports) => all.concat(imports), []);
+  addDuplicateWarnings(allImports);
+  for (const imprt of allImports) {
+    const url = getImportedUrl(imprt);
+    if (url.startsWith('../')) {
+      addWarning(
+          imprt, 'import-outside-package',
+          `${url} is outside of the package, so it may not be there when ` +
+              `the package is installed.`);
+    }
+  }
+}
+
+/**
+ * Returns the imports in a document and in its inline documents, but not
+ * those in the documents that it imports.
+ */
+function getOwnImports(document: Document): Import[] {
+  let imports: Import[] = [];
+  for (const feature of document.getLocalFeatures()) {
+    if (feature instanceof Document) {
+      if (feature.isInline) {
+        imports = imports.concat(getOwnImports(feature));
+      }
+    } else if (feature instanceof Import && feature.url != null) {
+      // Unresolvable imports already have a warning of their own.
+      imports.push(feature);
+    }
+  }
+  return imports;
+}
+
+function addCycleWarnings(
+    root: Document, importsByDocument: Map<Document, Import[]>) {
+  const visited = new Set<Document>();
+  const path: Document[] = [];
+  const visit = (document: Document) => {
+    visited.add(document);
+    path.push(document);
+    for (const imprt of importsByDocument.get(document) || []) {
+      const imported = imprt.document;
+      if (imprt.type !== 'html-import' || !imported) {
+        continue;
+      }
+      const cycleStart = path.indexOf(imported);
+      if (cycleStart !== -1) {
+        const cycle = path.slice(cycleStart).concat([imported]);
+        addWarning(
+            imprt, 'import-cycle',
+            `Import cycle: ${cycle.map((d) => d.url).join(' -> ')}`);
+      } else if (!visited.has(imported)) {
+        visit(imported);
+      }
+    }
+    path.pop();
+  };
+  visit(root);
+}
+
+function addDuplicateWarnings(imports: Import[]) {
+  // The first URL that each file was imported under.
+  const firstUrls = new Map<string, string>();
+  for (const imprt of imports) {
+    const url = getImportedUrl(imprt);
+    const key = getFileKey(url);
+    const firstUrl = firstUrls.get(key);
+    if (firstUrl === undefined) {
+      firstUrls.set(key, url);
+    } else if (firstUrl !== url) {
+      addWarning(
+          imprt, 'duplicate-import',
+          `${url} is also imported as ${firstUrl}. A file that's imported ` +
+              `under two URLs is loaded and run twice.`);
+    }
+  }
+}
+
+/**
+ * The URL of the file that an import loaded, after any URL resolution.
+ */
+function getImportedUrl(imprt: Import): string {
+  return imprt.document ? imprt.document.url : imprt.url;
+}
+
+/**
+ * Identifies a file independently of where its package was installed, e.g.
+ * `paper-button/paper-button.html` for both
+ * `../paper-button/paper-button.html` and
+ * `bower_components/paper-button/paper-button.html`.
+ */
+function getFileKey(url: string): string {
+  const match = /(?:^|\/)(?:bower_components|node_modules)\/(.*)$/.exec(url);
+  return match ? match[1] : url.replace(/^(\.\.\/)+/, '');
+}
+
+function addWarning(imprt: Import, code: string, message: string) {
+  const warning: Warning = {
+    message,
+    sourceRange: imprt.sourceRange,
+    severity: Severity.WARNING, code
+  };
+  imprt.warnings.push(warning);
+}
@@ -16,6 +16,7 @@ import {SourceRange} from './model';
 import {Document, ScannedDocument} from './document';
 import {Feature, ScannedFeature} from './feature';
 import {Resolvable} from './resolvable';
+import {Warning} from './warning';
 
 /**
  * Represents an import, such as an HTML import, an external script or style
@@ -28,14 +29,19 @@ export class ScannedImport implements ScannedFeature, Resolvable {
 
   /**
    * URL of the import, relative to the document containing the import.
+   *
+   * Undefined when the import can't be resolved to a URL, in which case
+   * nothing is loaded and `warnings` says why.
    */
-  url: string;
+  url: string|undefined;
 
   scannedDocument: ScannedDocument;
 
   sourceRange: SourceRange;
 
-  constructor(type: string, url: string, sourceRange: SourceRange) {
+  warnings: Warning[] = [];
+
+  constructor(type: string, url: string|undefined, sourceRange: SourceRange) {
     this.type = type;
     this.url = url;
     this.sourceRange = sourceRange;
@@ -43,19 +49,22 @@ export class ScannedImport implements ScannedFeature, Resolvable {
 
   resolve(_contextDocument: Document): Import {
     // The caller will set import.document;
-    return new Import(this.url, this.type, this.sourceRange);
+    const imprt = new Import(this.url, this.type, this.sourceRange);
+    imprt.warnings.push(...this.warnings);
+    return imprt;
   }
 }
 
 export class Import implements Feature {
   type: 'html-import'|'html-script'|'html-style'|string;
-  url: string;
+  url: string|undefined;
   document: Document;
   identifiers = new Set();
   kinds: Set<string>;
   sourceRange: SourceRange;
+  warnings: Warning[] = [];
 
-  constructor(url: string, type: string, sourceRange: SourceRange) {
+  constructor(url: string|undefined, type: string, sourceRange: SourceRange) {
     this.url = url;
     this.type = type;
     this.kinds = new Set(['import', this.type]);
@@ -32,6 +32,7 @@
  * Earlier stages have the longer names, like ParsedDocument and ScannedElement.
  */
 
+export * from './analysis';
 export * from './document';
 export * from './element';
 export * from './event';
@@ -42,3 +43,4 @@ export * from './literal';
 export * from './property';
 export * from './resolvable';
 export * from './source-range';
+export * from './warning';
@@ -68,3 +68,57 @@ export function correctPosition(
     column: position.column + (position.line === 0 ? locationOffset.col : 0)
   };
 }
+
+/**
+ * Returns the offsets in `text` at which each of its lines start, for use with
+ * `positionForOffset`.
+ */
+export function getLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/**
+ * Converts an offset into a text into a line and column, given the offsets at
+ * which the text's lines start.
+ */
+export function positionForOffset(
+    lineStarts: number[], offset: number): Position {
+  // Binary search for the last line that starts at or before the offset.
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return {line: low, column: offset - lineStarts[low]};
+}
+
+/**
+ * Returns a negative number if `left` comes before `right`, a positive number
+ * if it comes after, and zero if they're the same position.
+ */
+export function comparePositions(left: Position, right: Position): number {
+  if (left.line !== right.line) {
+    return left.line - right.line;
+  }
+  return left.column - right.column;
+}
+
+/**
+ * Whether `position` is within `range`, inclusive of both ends.
+ */
+export function isPositionInsideRange(
+    position: Position, range: SourceRange): boolean {
+  return comparePositions(range.start, position) <= 0 &&
+      comparePositions(position, range.end) <= 0;
+}
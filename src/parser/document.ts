@@ -12,7 +12,7 @@
  * http://polymer.github.io/PATENTS.txt
  */
 
-import {SourceRange} from '../model/source-range';
+import {LocationOffset, SourceRange} from '../model/source-range';
 
 /**
  * A parsed Document.
@@ -27,10 +27,16 @@ export abstract class ParsedDocument<A, V> {
   contents: string;
   ast: A;
 
+  /**
+   * For an inline document, its location within its containing document.
+   */
+  locationOffset?: LocationOffset;
+
   constructor(from: Options<A>) {
     this.url = from.url;
     this.contents = from.contents;
     this.ast = from.ast;
+    this.locationOffset = from.locationOffset;
   }
 
   /**
@@ -53,4 +59,5 @@ export interface Options<A> {
   url: string;
   contents: string;
   ast: A;
+  locationOffset?: LocationOffset;
 }
@@ -32,6 +32,8 @@ export function analyzeProperties(
     prop.published = true;
 
     if (property.value.type !== 'ObjectExpression') {
+      // The shorthand form, e.g. `key: String`, only gives the type.
+      analyzedProps.push(prop);
       continue;
     }
     /**
@@ -25,6 +25,7 @@ import * as jsdoc from '../javascript/jsdoc';
 import {ScannedBehavior} from './behavior-descriptor';
 import {PropertyHandlers, declarationPropertyHandlers} from './declaration-property-handlers';
 import * as docs from './docs';
+import {BehaviorAssignment} from './element-descriptor';
 
 interface KeyFunc<T> {
   (value: T): any;
@@ -218,6 +219,9 @@ class BehaviorVisitor implements Visitor {
       behavior.behaviors = (behavior.behaviors)
                                .concat(newBehavior.behaviors)
                                .filter(isBehaviorImpl);
+      behavior.behaviorAssignments =
+          behavior.behaviorAssignments.concat(newBehavior.behaviorAssignments)
+              .filter(a => isBehaviorImpl(a.name));
       return behavior;
     }
     return newBehavior;
@@ -232,15 +236,21 @@ class BehaviorVisitor implements Visitor {
     // We add these to behaviors array
     const expression = behaviorExpression(node);
     const chained: string[] = [];
+    const assignments: BehaviorAssignment[] = [];
     if (expression && expression.type === 'ArrayExpression') {
       for (const element of expression.elements) {
         const behaviorName = astValue.getIdentifierName(element);
         if (behaviorName) {
           chained.push(behaviorName);
+          assignments.push({
+            name: behaviorName,
+            sourceRange: this.document.sourceRangeForNode(element)
+          });
         }
       }
       if (chained.length > 0) {
         this.currentBehavior.behaviors = chained;
+        this.currentBehavior.behaviorAssignments = assignments;
       }
     }
   }
@@ -0,0 +1,259 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import {ASTNode} from 'parse5';
+import * as shady from 'shady-css-parser';
+
+import {ParsedCssDocument} from '../css/css-document';
+import {CssParser} from '../css/css-parser';
+import {HtmlVisitor, ParsedHtmlDocument} from '../html/html-document';
+import {HtmlScanner} from '../html/html-scanner';
+import * as jsdoc from '../javascript/jsdoc';
+import {Feature, Resolvable, ScannedFeature, SourceRange, getLocationOffsetOfStartOfTextContent} from '../model/model';
+
+const p = dom5.predicates;
+
+const isDomModule = p.hasTagName('dom-module');
+const isTemplate = p.hasTagName('template');
+const isStyleElement = p.AND(
+    p.hasTagName('style'),
+    p.OR(p.NOT(p.hasAttr('type')), p.hasAttrValue('type', 'text/css')));
+
+/**
+ * How a custom property was found:
+ *
+ *   - `var` for a `var(--foo)` usage
+ *   - `apply` for an `@apply --foo` usage of a mixin
+ *   - `mixin-definition` for a `--foo: {...}` definition of a mixin
+ *   - `doc-comment` for an `@cssVariable` tag in a comment
+ */
+export type CssCustomPropertyUsage =
+    'var' | 'apply' | 'mixin-definition' | 'doc-comment';
+
+/**
+ * The fields shared by scanned and resolved custom properties.
+ */
+export interface CssCustomPropertyOptions {
+  /** The id of the dom-module whose styles use the property. */
+  domModuleId: string|undefined;
+
+  /** The name of the property, including its leading `--`. */
+  name: string;
+
+  usage: CssCustomPropertyUsage;
+
+  /** e.g. `color` or `mixin`. */
+  type: string|undefined;
+
+  description: string|undefined;
+
+  /** The fallback value of a `var()` usage, e.g. `red` in `var(--foo, red)`. */
+  fallback: string|undefined;
+
+  sourceRange: SourceRange;
+}
+
+export class ScannedCssCustomProperty implements ScannedFeature, Resolvable,
+                                                 CssCustomPropertyOptions {
+  domModuleId: string|undefined;
+  name: string;
+  usage: CssCustomPropertyUsage;
+  type: string|undefined;
+  description: string|undefined;
+  fallback: string|undefined;
+  sourceRange: SourceRange;
+
+  constructor(options: CssCustomPropertyOptions) {
+    Object.assign(this, options);
+  }
+
+  resolve() {
+    return new CssCustomProperty(this);
+  }
+}
+
+export class CssCustomProperty implements Feature, CssCustomPropertyOptions {
+  kinds = new Set(['css-custom-property']);
+  identifiers = new Set<string>();
+  domModuleId: string|undefined;
+  name: string;
+  usage: CssCustomPropertyUsage;
+  type: string|undefined;
+  description: string|undefined;
+  fallback: string|undefined;
+  sourceRange: SourceRange;
+
+  constructor(options: CssCustomPropertyOptions) {
+    Object.assign(this, options);
+    if (this.domModuleId) {
+      this.identifiers.add(this.domModuleId);
+    }
+  }
+}
+
+/**
+ * Finds the CSS custom properties and mixins that the styles of
+ * `<dom-module>`s use and define, along with any `@cssVariable` tags in their
+ * comments.
+ *
+ * The styles in a dom-module's template aren't inline documents of their own,
+ * so this parses them itself.
+ */
+export class CssCustomPropertyScanner implements HtmlScanner {
+  private _parser = new CssParser();
+
+  async scan(
+      document: ParsedHtmlDocument,
+      visit: (visitor: HtmlVisitor) => Promise<void>):
+      Promise<ScannedCssCustomProperty[]> {
+    const properties: ScannedCssCustomProperty[] = [];
+
+    await visit((node) => {
+      if (!isDomModule(node)) {
+        return;
+      }
+      const domModuleId = dom5.getAttribute(node, 'id') || undefined;
+      for (const style of getStyles(node)) {
+        const locationOffset = getLocationOffsetOfStartOfTextContent(style);
+        locationOffset.filename = document.url;
+        const cssDocument = this._parser.parse(
+            dom5.getTextContent(style), document.url, locationOffset);
+        properties.push(...scanStyle(cssDocument, domModuleId));
+      }
+    });
+    return properties;
+  }
+}
+
+/**
+ * The `<style>`s of a dom-module, both those directly inside it and, as
+ * Polymer prefers, those in its template.
+ */
+function getStyles(domModule: ASTNode): ASTNode[] {
+  const styles = dom5.queryAll(domModule, isStyleElement);
+  const template = dom5.query(domModule, isTemplate);
+  const content: ASTNode|undefined = template && template['content'];
+  if (content) {
+    styles.push(...dom5.queryAll(content, isStyleElement));
+  }
+  return styles;
+}
+
+function scanStyle(document: ParsedCssDocument, domModuleId: string|undefined):
+    ScannedCssCustomProperty[] {
+  const properties: ScannedCssCustomProperty[] = [];
+  const push =
+      (name: string, usage: CssCustomPropertyUsage, start: number,
+       extra: {type?: string, description?: string, fallback?: string} = {}) =>
+          properties.push(new ScannedCssCustomProperty({
+            domModuleId,
+            name,
+            usage,
+            type: extra.type,
+            description: extra.description,
+            fallback: extra.fallback,
+            sourceRange:
+                document.sourceRangeForOffsets(start, start + name.length)
+          }));
+
+  document.forEachNode((node: shady.Node) => {
+    if (!node.range) {
+      return;
+    }
+    const text = document.contents.substring(node.range.start, node.range.end);
+    switch (node.type) {
+      case 'declaration':
+        if (node.name.startsWith('--') && node.value &&
+            node.value.type === 'rulelist') {
+          push(
+              node.name, 'mixin-definition', node.range.start, {type: 'mixin'});
+        }
+        break;
+      case 'expression':
+        for (const usage of findVarUsages(node.text)) {
+          push(
+              usage.name, 'var', node.range.start + usage.offset,
+              {fallback: usage.fallback});
+        }
+        break;
+      case 'atRule':
+        if (node.name === 'apply') {
+          const match = /--[\w-]+/.exec(text);
+          if (match) {
+            push(
+                match[0], 'apply', node.range.start + match.index,
+                {type: 'mixin'});
+          }
+        }
+        break;
+      case 'comment':
+        const annotation =
+            jsdoc.parseJsdoc(node.value.replace(/^\/\*\*?|\*\/$/g, ''));
+        for (const tag of annotation.tags || []) {
+          if (tag.tag !== 'cssVariable' || !tag.description) {
+            continue;
+          }
+          const match = /^(?:\{([^}]*)\}\s*)?(--[\w-]+)\s*([\s\S]*)$/.exec(
+              tag.description.trim());
+          if (match) {
+            push(
+                match[2], 'doc-comment',
+                node.range.start + text.indexOf(match[2]),
+                {type: match[1], description: match[3] || undefined});
+          }
+        }
+        break;
+    }
+  });
+  return properties;
+}
+
+const varPattern = /var\(\s*(--[\w-]+)\s*/g;
+
+/**
+ * Finds the `var()` usages in a CSS expression, including those nested in the
+ * fallbacks of others.
+ */
+function findVarUsages(text: string):
+    {name: string, offset: number, fallback?: string}[] {
+  const usages: {name: string, offset: number, fallback?: string}[] = [];
+  varPattern.lastIndex = 0;
+  let match: RegExpExecArray|null;
+  while (match = varPattern.exec(text)) {
+    const usage: {name: string, offset: number, fallback?: string} = {
+      name: match[1],
+      offset: match.index + match[0].indexOf(match[1])
+    };
+    const afterName = match.index + match[0].length;
+    if (text[afterName] === ',') {
+      // The fallback runs to the parenthesis that closes the `var(`.
+      let depth = 0;
+      let end = afterName + 1;
+      for (; end < text.length; end++) {
+        if (text[end] === '(') {
+          depth++;
+        } else if (text[end] === ')') {
+          if (depth === 0) {
+            break;
+          }
+          depth--;
+        }
+      }
+      usage.fallback = text.substring(afterName + 1, end).trim() || undefined;
+    }
+    usages.push(usage);
+  }
+  return usages;
+}
@@ -0,0 +1,366 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as dom5 from 'dom5';
+import * as parse5 from 'parse5';
+import {ASTNode} from 'parse5';
+
+import {Feature, Resolvable, ScannedFeature, SourceRange} from '../model/model';
+import {HtmlVisitor, ParsedHtmlDocument} from '../html/html-document';
+import {HtmlScanner} from '../html/html-scanner';
+
+const p = dom5.predicates;
+
+const isDomModule = p.hasTagName('dom-module');
+const isTemplate = p.hasTagName('template');
+
+/**
+ * A path that a binding expression depends on, e.g. `user.name` or `items.*`.
+ */
+export interface BoundPath {
+  path: string;
+  sourceRange: SourceRange;
+}
+
+/**
+ * The fields shared by scanned and resolved data bindings.
+ */
+export interface DatabindingOptions {
+  /** The id of the dom-module whose template contains the binding. */
+  domModuleId: string|undefined;
+
+  /** `{{...}}` bindings are two-way, `[[...]]` bindings are one-way. */
+  direction: 'one-way'|'two-way';
+
+  /** The text between the binding's delimiters. */
+  expressionText: string;
+
+  /**
+   * The name of the attribute that the binding is in, without any trailing
+   * `$`, or undefined if the binding is in text content.
+   */
+  attribute: string|undefined;
+
+  /** True if the binding sets an attribute with `$=` rather than a property. */
+  isAttributeBinding: boolean;
+
+  /** True if the expression starts with `!`. */
+  negated: boolean;
+
+  /** The event that signals changes for a two-way binding, as in `::input`. */
+  eventName: string|undefined;
+
+  /** The method that a computed binding calls. */
+  method: {name: string, sourceRange: SourceRange}|undefined;
+
+  /**
+   * The paths that the binding depends on. For a computed binding these are
+   * its arguments, not counting literals.
+   */
+  paths: BoundPath[];
+
+  /**
+   * The names that enclosing `dom-repeat` templates provide, e.g. `item` and
+   * `index`.
+   */
+  templateScope: string[];
+
+  /** The range of the whole binding, including its delimiters. */
+  sourceRange: SourceRange;
+}
+
+export class ScannedDatabinding implements ScannedFeature, Resolvable,
+                                           DatabindingOptions {
+  domModuleId: string|undefined;
+  direction: 'one-way'|'two-way';
+  expressionText: string;
+  attribute: string|undefined;
+  isAttributeBinding: boolean;
+  negated: boolean;
+  eventName: string|undefined;
+  method: {name: string, sourceRange: SourceRange}|undefined;
+  paths: BoundPath[];
+  templateScope: string[];
+  sourceRange: SourceRange;
+
+  constructor(options: DatabindingOptions) {
+    Object.assign(this, options);
+  }
+
+  resolve() {
+    return new Databinding(this);
+  }
+}
+
+export class Databinding implements Feature, DatabindingOptions {
+  kinds = new Set(['databinding']);
+  identifiers = new Set<string>();
+  domModuleId: string|undefined;
+  direction: 'one-way'|'two-way';
+  expressionText: string;
+  attribute: string|undefined;
+  isAttributeBinding: boolean;
+  negated: boolean;
+  eventName: string|undefined;
+  method: {name: string, sourceRange: SourceRange}|undefined;
+  paths: BoundPath[];
+  templateScope: string[];
+  sourceRange: SourceRange;
+
+  constructor(options: DatabindingOptions) {
+    Object.assign(this, options);
+    if (this.domModuleId) {
+      this.identifiers.add(this.domModuleId);
+    }
+  }
+}
+
+/**
+ * Finds the `[[...]]` and `{{...}}` bindings in the templates of
+ * `<dom-module>`s, in both text and attribute values.
+ */
+export class DatabindingScanner implements HtmlScanner {
+  async scan(
+      document: ParsedHtmlDocument,
+      visit: (visitor: HtmlVisitor) => Promise<void>):
+      Promise<ScannedDatabinding[]> {
+    const databindings: ScannedDatabinding[] = [];
+
+    await visit((node) => {
+      if (!isDomModule(node)) {
+        return;
+      }
+      const template = dom5.query(node, isTemplate);
+      const content: ASTNode|undefined = template && template['content'];
+      if (!content) {
+        return;
+      }
+      const domModuleId = dom5.getAttribute(node, 'id') || undefined;
+      scanTree(document, content, domModuleId, [], databindings);
+    });
+    return databindings;
+  }
+}
+
+function scanTree(
+    document: ParsedHtmlDocument, node: ASTNode, domModuleId: string|undefined,
+    templateScope: string[], databindings: ScannedDatabinding[]) {
+  databindings.push(...scanNode(document, node, domModuleId, templateScope));
+  for (const child of node.childNodes || []) {
+    scanTree(document, child, domModuleId, templateScope, databindings);
+  }
+  const content: ASTNode|undefined = node['content'];
+  if (content) {
+    scanTree(
+        document, content, domModuleId,
+        templateScope.concat(getRepeatScope(node)), databindings);
+  }
+}
+
+/**
+ * The names that a `dom-repeat` template provides to its contents, or none if
+ * `template` isn't repeated.
+ */
+function getRepeatScope(template: ASTNode): string[] {
+  // Polymer 1 repeats `<template is="dom-repeat">`, Polymer 2 also repeats
+  // the template inside a `<dom-repeat>`.
+  let repeater = template;
+  if (dom5.getAttribute(template, 'is') !== 'dom-repeat') {
+    repeater = template.parentNode;
+    if (!repeater || repeater.nodeName !== 'dom-repeat') {
+      return [];
+    }
+  }
+  return [
+    dom5.getAttribute(repeater, 'as') || 'item',
+    dom5.getAttribute(repeater, 'index-as') || 'index'
+  ];
+}
+
+function scanNode(
+    document: ParsedHtmlDocument, node: ASTNode, domModuleId: string|undefined,
+    templateScope: string[]): ScannedDatabinding[] {
+  const location = <parse5.LocationInfo>node.__location;
+  if (!location) {
+    return [];
+  }
+  if (node.nodeName === '#text') {
+    const parentName = node.parentNode && node.parentNode.nodeName;
+    if (parentName === 'style' || parentName === 'script') {
+      return [];
+    }
+    return scanText(
+        document, location.startOffset, location.endOffset, domModuleId,
+        templateScope, undefined);
+  }
+  const startTag: parse5.StartTagLocationInfo =
+      location['startTag'] || location;
+  const attributeLocations = startTag.attrs || {};
+  const databindings: ScannedDatabinding[] = [];
+  for (const attr of node.attrs || []) {
+    const attributeLocation = attributeLocations[attr.name];
+    if (!attributeLocation) {
+      continue;
+    }
+    // Only look for bindings after the `=`, not in the attribute's name.
+    const attributeText = document.contents.substring(
+        attributeLocation.startOffset, attributeLocation.endOffset);
+    const valueStart = attributeText.indexOf('=') + 1;
+    if (valueStart === 0) {
+      continue;
+    }
+    databindings.push(...scanText(
+        document, attributeLocation.startOffset + valueStart,
+        attributeLocation.endOffset, domModuleId, templateScope, attr.name));
+  }
+  return databindings;
+}
+
+const bindingPattern = /\[\[([\s\S]*?)\]\]|\{\{([\s\S]*?)\}\}/g;
+
+/**
+ * Scans the document's contents between `start` and `end` for bindings.
+ */
+function scanText(
+    document: ParsedHtmlDocument, start: number, end: number,
+    domModuleId: string|undefined, templateScope: string[],
+    attributeName: string|undefined): ScannedDatabinding[] {
+  const text = document.contents.substring(start, end);
+  const rangeFor = (from: number, length: number): SourceRange => ({
+    file: document.url,
+    start: document.sourcePositionForOffset(start + from),
+    end: document.sourcePositionForOffset(start + from + length)
+  });
+
+  const isAttributeBinding = !!attributeName && attributeName.endsWith('$');
+  const attribute =
+      isAttributeBinding ? attributeName.slice(0, -1) : attributeName;
+  const databindings: ScannedDatabinding[] = [];
+  bindingPattern.lastIndex = 0;
+  let match: RegExpExecArray|null;
+  while (match = bindingPattern.exec(text)) {
+    const isTwoWay = match[2] !== undefined;
+    const expressionText = isTwoWay ? match[2] : match[1];
+    // The expression starts after the two character opening delimiter.
+    const expressionStart = match.index + 2;
+    const expression = parseExpression(expressionText);
+    if (!expression) {
+      continue;
+    }
+    databindings.push(new ScannedDatabinding({
+      domModuleId,
+      direction: isTwoWay ? 'two-way' : 'one-way',
+      expressionText,
+      attribute,
+      isAttributeBinding,
+      negated: expression.negated,
+      eventName: expression.eventName,
+      method: expression.method && {
+        name: expression.method.name,
+        sourceRange: rangeFor(
+            expressionStart + expression.method.offset,
+            expression.method.name.length)
+      },
+      paths: expression.paths.map(
+          p => ({
+            path: p.path,
+            sourceRange: rangeFor(expressionStart + p.offset, p.path.length)
+          })),
+      templateScope,
+      sourceRange: rangeFor(match.index, match[0].length)
+    }));
+  }
+  return databindings;
+}
+
+interface ParsedExpression {
+  negated: boolean;
+  method?: {name: string, offset: number};
+  paths: {path: string, offset: number}[];
+  eventName?: string;
+}
+
+const pathPattern = /^[a-zA-Z_$][\w$]*(?:\.(?:[\w$]+|\*))*/;
+const numberPattern = /^[-+]?\d*\.?\d+(?:[eE][-+]?\d+)?/;
+const stringPattern = /^(?:'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/;
+const eventPattern = /^::([\w-]+)/;
+
+/**
+ * Parses the text between a binding's delimiters, as Polymer does. That's an
+ * optional `!`, then either a path or a call of a method with paths and
+ * literals as arguments, then, optionally, `::` and an event name.
+ *
+ * Offsets are relative to the start of `text`. Returns undefined if `text`
+ * isn't a valid binding expression.
+ */
+function parseExpression(text: string): ParsedExpression|undefined {
+  let index = 0;
+  const skipWhitespace = () => {
+    while (index < text.length && /\s/.test(text[index])) {
+      index++;
+    }
+  };
+  const consume = (pattern: RegExp) => {
+    const match = pattern.exec(text.substring(index));
+    if (match) {
+      index += match[0].length;
+    }
+    return match;
+  };
+
+  skipWhitespace();
+  const negated = text[index] === '!';
+  if (negated) {
+    index++;
+    skipWhitespace();
+  }
+  const headOffset = index;
+  const head = consume(pathPattern);
+  if (!head) {
+    return;
+  }
+  const result: ParsedExpression = {negated, paths: []};
+  skipWhitespace();
+  if (text[index] === '(') {
+    index++;
+    result.method = {name: head[0], offset: headOffset};
+    skipWhitespace();
+    while (text[index] !== ')') {
+      const argumentOffset = index;
+      const path = consume(pathPattern);
+      if (path) {
+        result.paths.push({path: path[0], offset: argumentOffset});
+      } else if (!consume(numberPattern) && !consume(stringPattern)) {
+        return;
+      }
+      skipWhitespace();
+      if (text[index] === ',') {
+        index++;
+        skipWhitespace();
+      } else if (text[index] !== ')') {
+        return;
+      }
+    }
+    index++;
+  } else {
+    result.paths.push({path: head[0], offset: headOffset});
+  }
+  skipWhitespace();
+  const event = consume(eventPattern);
+  if (event) {
+    result.eventName = event[1];
+    skipWhitespace();
+  }
+  return index === text.length ? result : undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {Document} from '../model/document';
+import {Severity, Warning} from '../model/warning';
+
+import {Databinding} from './databinding-scanner';
+import {PolymerElement, PolymerProperty} from './element-descriptor';
+
+/**
+ * Adds warnings to the Polymer elements in the dependency graph of `root` for
+ * bindings in their templates that don't match them.
+ *
+ * This is done once the elements have inherited from their superclasses,
+ * since bindings can refer to inherited properties.
+ */
+export function validateDatabindings(root: Document) {
+  for (const element of root.getByKind('polymer-element')) {
+    if (element.tagName) {
+      element.warnings.push(...validateElementDatabindings(
+          element, root.getById('databinding', element.tagName)));
+    }
+  }
+}
+
+/**
+ * Checks the bindings in an element's template against the element's
+ * properties and methods, including those that it inherits.
+ */
+function validateElementDatabindings(
+    element: PolymerElement, databindings: Iterable<Databinding>): Warning[] {
+  const warnings: Warning[] = [];
+  const properties = new Map(
+      element.properties.map((p): [string, PolymerProperty] => [p.name, p]));
+  for (const databinding of databindings) {
+    const method = databinding.method;
+    if (method) {
+      const property = properties.get(method.name);
+      if (!property || property.type !== 'Function') {
+        warnings.push({
+          message: `The computed binding calls \`${method.name}\`, ` +
+              `which is not a method of <${element.tagName}>.`,
+          sourceRange: method.sourceRange,
+          severity: Severity.WARNING,
+          code: 'undefined-binding-method'
+        });
+      }
+    }
+    for (const path of databinding.paths) {
+      const root = path.path.split('.')[0];
+      if (databinding.templateScope.indexOf(root) !== -1) {
+        continue;
+      }
+      const property = properties.get(root);
+      if (!property && element.assignedProperties.indexOf(root) !== -1) {
+        // Polymer observes undeclared properties too, so bindings to them
+        // work, though we know nothing else about them.
+        continue;
+      }
+      if (!property) {
+        warnings.push({
+          message: `The binding refers to \`${root}\`, ` +
+              `which is not a property of <${element.tagName}>.`,
+          sourceRange: path.sourceRange,
+          severity: Severity.WARNING,
+          code: 'undefined-binding-property'
+        });
+        continue;
+      }
+      if (property.readOnly && path.path === root &&
+          isTwoWayPropertyBinding(databinding)) {
+        warnings.push({
+          message: `\`${root}\` is read-only, so it can't be two-way bound. ` +
+              `Use [[${root}]] instead.`,
+          sourceRange: path.sourceRange,
+          severity: Severity.WARNING,
+          code: 'read-only-two-way-binding'
+        });
+      }
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Whether changes made by the bound element flow back up into the path.
+ */
+function isTwoWayPropertyBinding(databinding: Databinding): boolean {
+  return databinding.direction === 'two-way' && !!databinding.attribute &&
+      !databinding.isAttributeBinding && !databinding.method &&
+      !databinding.negated;
+}
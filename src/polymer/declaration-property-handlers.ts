@@ -35,6 +35,7 @@ export function declarationPropertyHandlers(
     is(node: estree.Node) {
       if (node.type === 'Literal') {
         declaration.tagName = node.value.toString();
+        declaration.tagNameSourceRange = document.sourceRangeForNode(node);
       }
     },
     properties(node: estree.Node) {
@@ -50,6 +51,11 @@ export function declarationPropertyHandlers(
         let behaviorName = astValue.getIdentifierName(element);
         if (behaviorName === undefined) {
           behaviorName = astValue.CANT_CONVERT;
+        } else {
+          declaration.behaviorAssignments.push({
+            name: behaviorName,
+            sourceRange: document.sourceRangeForNode(element)
+          });
         }
         declaration.behaviors.push(behaviorName);
       }
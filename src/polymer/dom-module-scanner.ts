@@ -15,48 +15,63 @@
 import * as dom5 from 'dom5';
 import {ASTNode} from 'parse5';
 
-import {Feature, Resolvable, ScannedFeature, SourceRange, getAttachedCommentText} from '../model/model';
+import {Feature, Resolvable, ScannedFeature, Slot, SourceRange, getAttachedCommentText} from '../model/model';
+import * as jsdoc from '../javascript/jsdoc';
 import {HtmlVisitor, ParsedHtmlDocument} from '../html/html-document';
 import {HtmlScanner} from '../html/html-scanner';
 
 const p = dom5.predicates;
 
 const isDomModule = p.hasTagName('dom-module');
+const isTemplate = p.hasTagName('template');
+const isSlot = p.OR(p.hasTagName('slot'), p.hasTagName('content'));
 
 export class ScannedDomModule implements ScannedFeature, Resolvable {
   id?: string;
   node: ASTNode;
   comment?: string;
   sourceRange: SourceRange;
+  slots: Slot[];
 
-  constructor(id: string, node: ASTNode, sourceRange: SourceRange) {
+  constructor(
+      id: string, node: ASTNode, sourceRange: SourceRange, slots: Slot[]) {
     this.id = id;
     this.node = node;
     this.comment = getAttachedCommentText(node);
     this.sourceRange = sourceRange;
+    this.slots = slots;
   }
 
   resolve() {
-    return new DomModule(this.node, this.id, this.comment, this.sourceRange);
+    return new DomModule(this);
   }
 }
 
 export class DomModule implements Feature {
   kinds = new Set(['dom-module']);
   identifiers = new Set<string>();
-  node: ASTNode;
   id: string|undefined;
   comment: string|undefined;
   sourceRange: SourceRange;
-  constructor(
-      node: ASTNode, id: string, comment: string, sourceRange: SourceRange) {
-    this.node = node;
-    this.id = id;
-    this.comment = comment;
+  slots: Slot[];
+  private _scannedDomModule: ScannedDomModule;
+  constructor(scannedDomModule: ScannedDomModule) {
+    this._scannedDomModule = scannedDomModule;
+    this.id = scannedDomModule.id;
+    this.comment = scannedDomModule.comment;
     if (this.id) {
-      this.identifiers.add(id);
+      this.identifiers.add(this.id);
     }
-    this.sourceRange = sourceRange;
+    this.sourceRange = scannedDomModule.sourceRange;
+    this.slots = scannedDomModule.slots;
+  }
+
+  /**
+   * Read from the scanned dom-module when it's used, so that resolving one
+   * that was read from a cache doesn't parse its document.
+   */
+  get node(): ASTNode {
+    return this._scannedDomModule.node;
   }
 }
 
@@ -71,9 +86,57 @@ export class DomModuleScanner implements HtmlScanner {
       if (isDomModule(node)) {
         domModules.push(new ScannedDomModule(
             dom5.getAttribute(node, 'id'), node,
-            document.sourceRangeForNode(node)));
+            document.sourceRangeForNode(node), getSlots(document, node)));
       }
     });
     return domModules;
   }
 }
+
+/**
+ * Finds the `<slot>`s, and the legacy `<content>` insertion points, in a
+ * dom-module's template, including those in nested templates.
+ */
+function getSlots(document: ParsedHtmlDocument, domModule: ASTNode): Slot[] {
+  const slots: Slot[] = [];
+  const template = dom5.query(domModule, isTemplate);
+  const content: ASTNode|undefined = template && template['content'];
+  if (!content) {
+    return slots;
+  }
+  const walk = (node: ASTNode) => {
+    if (isSlot(node)) {
+      const name = node.nodeName === 'slot' ? dom5.getAttribute(node, 'name') :
+                                              dom5.getAttribute(node, 'select');
+      slots.push({
+        name: name || '',
+        description: getSlotComment(node),
+        sourceRange: document.sourceRangeForNode(node)
+      });
+    }
+    for (const child of node.childNodes || []) {
+      walk(child);
+    }
+    if (node['content']) {
+      walk(node['content']);
+    }
+  };
+  walk(content);
+  return slots;
+}
+
+/**
+ * The text of the HTML comment just before a slot, which documents it.
+ */
+function getSlotComment(slot: ASTNode): string|undefined {
+  const siblings = slot.parentNode.childNodes;
+  for (let i = siblings.indexOf(slot) - 1; i >= 0; i--) {
+    const sibling = siblings[i];
+    if (dom5.isCommentNode(sibling)) {
+      return jsdoc.unindent(dom5.getTextContent(sibling)).trim() || undefined;
+    }
+    if (!dom5.isTextNode(sibling) || dom5.getTextContent(sibling).trim()) {
+      return;
+    }
+  }
+}
@@ -1,10 +1,14 @@
 import * as dom5 from 'dom5';
 import * as estree from 'estree';
 
-import {Document, Element, LiteralValue, Property, ScannedAttribute, ScannedElement, ScannedEvent, ScannedProperty, SourceRange} from '../model/model';
+import {CssVariable, Document, Element, LiteralValue, LocationOffset, Property, ScannedAttribute, ScannedElement, ScannedEvent, ScannedProperty, SourceRange, correctSourceRange, mergeByName} from '../model/model';
 import * as jsdoc from '../javascript/jsdoc';
 
+import {Severity, Warning} from '../editor-service';
+
 import {Behavior} from './behavior-descriptor';
+import {CssCustomProperty} from './css-custom-property-scanner';
+import {Mixin} from './mixin-descriptor';
 
 export interface BasePolymerProperty {
   published?: boolean;
@@ -32,6 +36,14 @@ export function isScannedFunction(d: ScannedProperty): d is ScannedFunction {
   return d['function'] === true;
 }
 
+/**
+ * A use of a behavior by name, e.g. an entry in an element's `behaviors` array.
+ */
+export interface BehaviorAssignment {
+  name: string;
+  sourceRange: SourceRange;
+}
+
 export interface Options {
   tagName?: string;
   className?: string;
@@ -46,6 +58,8 @@ export interface Options {
     expression: LiteralValue
   }[];
   behaviors?: string[];
+  behaviorAssignments?: BehaviorAssignment[];
+  mixins?: string[];
 
   demos?: {desc: string; path: string}[];
   events?: ScannedEvent[];
@@ -64,6 +78,17 @@ export class ScannedPolymerElement extends ScannedElement {
     expression: LiteralValue
   }[] = [];
   behaviors: string[] = [];
+  behaviorAssignments: BehaviorAssignment[] = [];
+  /**
+   * The class mixins that the element's class applies, outermost first, e.g.
+   * `MixinA` then `MixinB` for `class extends MixinA(MixinB(Polymer.Element))`.
+   */
+  mixins: string[] = [];
+  /**
+   * The names that the element's code assigns to with `this.name = ...`,
+   * which can be bound to even if they aren't declared as properties.
+   */
+  assignedProperties: string[] = [];
   // FIXME(rictic): domModule and scriptElement aren't known at a file local
   //     level. Remove them here, they should only exist on PolymerElement.
   domModule?: dom5.Node;
@@ -76,6 +101,17 @@ export class ScannedPolymerElement extends ScannedElement {
     Object.assign(this, options);
   }
 
+  applyLocationOffset(locationOffset?: LocationOffset) {
+    super.applyLocationOffset(locationOffset);
+    if (!locationOffset) {
+      return;
+    }
+    for (const assignment of this.behaviorAssignments) {
+      assignment.sourceRange =
+          correctSourceRange(assignment.sourceRange, locationOffset);
+    }
+  }
+
   addProperty(prop: ScannedPolymerProperty) {
     if (prop.name.startsWith('_') || prop.name.endsWith('_')) {
       prop.private = true;
@@ -115,8 +151,12 @@ export class PolymerElement extends Element {
     expression: LiteralValue
   }[];
   behaviors: string[];
+  behaviorAssignments: BehaviorAssignment[];
+  mixins: string[];
+  assignedProperties: string[];
   domModule?: dom5.Node;
   scriptElement?: dom5.Node;
+  warnings: Warning[];
 
   abstract?: boolean;
 
@@ -124,6 +164,10 @@ export class PolymerElement extends Element {
     super();
     this.kinds = new Set(['element', 'polymer-element']);
     this.behaviors = [];
+    this.behaviorAssignments = [];
+    this.mixins = [];
+    this.assignedProperties = [];
+    this.warnings = [];
   }
 
   emitPropertyMetadata(property: PolymerProperty) {
@@ -143,7 +187,7 @@ export class PolymerElement extends Element {
  *
  * Returns null if the property name cannot be so converted.
  */
-function propertyToAttributeName(propertyName: string): string|null {
+export function propertyToAttributeName(propertyName: string): string|null {
   // Polymer core will not map a property name that starts with an uppercase
   // character onto an attribute.
   if (propertyName[0].toUpperCase() === propertyName[0]) {
@@ -159,77 +203,162 @@ function resolveElement(
   const clone: PolymerElement =
       Object.assign(new PolymerElement(), scannedElement);
 
-  const behaviors = Array.from(
-      getFlattenedAndResolvedBehaviors(scannedElement.behaviors, document));
+  const behaviors = Array.from(getFlattenedAndResolvedBehaviors(
+      scannedElement, document, clone.warnings));
+  const mixins = Array.from(getFlattenedAndResolvedMixins(
+      scannedElement.mixins, document, clone.warnings, clone.sourceRange));
+  const inheritsFrom: PolymerElement[] = [...behaviors, ...mixins];
   clone.properties = mergeByName(
       scannedElement.properties,
-      behaviors.map(b => ({name: b.className, vals: b.properties})));
+      inheritsFrom.map(b => ({name: b.className, vals: b.properties})));
   clone.attributes = mergeByName(
       scannedElement.attributes,
-      behaviors.map(b => ({name: b.className, vals: b.attributes})));
+      inheritsFrom.map(b => ({name: b.className, vals: b.attributes})));
   clone.events = mergeByName(
       scannedElement.events,
-      behaviors.map(b => ({name: b.className, vals: b.events})));
+      inheritsFrom.map(b => ({name: b.className, vals: b.events})));
 
-  const domModule = document.getOnlyAtId('dom-module', scannedElement.tagName);
+  const domModule = scannedElement.tagName &&
+      getMostRecentAtId(document.getById('dom-module', scannedElement.tagName),
+                        scannedElement.tagName, clone.warnings,
+                        clone.sourceRange);
   if (domModule) {
     clone.description = scannedElement.description || domModule.comment;
-    clone.domModule = domModule.node;
+    // Read when it's used, so that resolving an element from a cached
+    // document doesn't parse the document.
+    Object.defineProperty(clone, 'domModule', {
+      get: () => domModule.node,
+      enumerable: true,
+      configurable: true
+    });
+    clone.slots = domModule.slots;
+  }
+
+  // Bindings are validated by `validateDatabindings` once the element has
+  // inherited from its superclass.
+  if (scannedElement.tagName) {
+    clone.cssVariables = getCssVariables(
+        document.getById('css-custom-property', scannedElement.tagName));
   }
 
   return clone;
 }
 
+/**
+ * Combines the usages, definitions and documentation of the custom properties
+ * in an element's styles into one CssVariable per property, in the order that
+ * they're first mentioned.
+ */
+function getCssVariables(customProperties: Set<CssCustomProperty>):
+    CssVariable[] {
+  const variables = new Map<string, CssVariable>();
+  for (const property of customProperties) {
+    let variable = variables.get(property.name);
+    if (!variable) {
+      variable = {name: property.name, sourceRange: property.sourceRange};
+      variables.set(property.name, variable);
+    }
+    variable.type = variable.type || property.type;
+    variable.description = variable.description || property.description;
+    variable.fallbackBehavior = variable.fallbackBehavior || property.fallback;
+  }
+  return Array.from(variables.values());
+}
+
 function getFlattenedAndResolvedBehaviors(
-    behaviors: string[], document: Document) {
+    element: ScannedPolymerElement, document: Document, warnings: Warning[]) {
   const resolvedBehaviors = new Set<Behavior>();
-  _getFlattenedAndResolvedBehaviors(behaviors, document, resolvedBehaviors);
+  _getFlattenedAndResolvedBehaviors(
+      element, document, warnings, resolvedBehaviors);
   return resolvedBehaviors;
 }
 
 function _getFlattenedAndResolvedBehaviors(
-    behaviors: string[], document: Document, resolvedBehaviors: Set<Behavior>) {
-  const toLookup = behaviors.slice();
-  for (let behaviorName of toLookup) {
-    // TODO(rictic): once we have a system for passing warnings through, this
-    //     could be a mild warning and we could just take the last one in the
-    //     array, which should be the most recently defined one.
-    const behavior = document.getOnlyAtId('behavior', behaviorName);
+    appliedTo: ScannedPolymerElement|Behavior, document: Document,
+    warnings: Warning[], resolvedBehaviors: Set<Behavior>) {
+  for (const behaviorName of appliedTo.behaviors) {
+    const assignment =
+        appliedTo.behaviorAssignments.find((a) => a.name === behaviorName);
+    const sourceRange =
+        assignment ? assignment.sourceRange : appliedTo.sourceRange;
+    const behavior = getMostRecentAtId(
+        document.getById('behavior', behaviorName), behaviorName, warnings,
+        sourceRange);
     if (!behavior) {
-      throw new Error(
-          `Unable to resolve behavior \`${behaviorName}\` ` +
-          `Did you import it? Is it annotated with @polymerBehavior?`);
+      warnings.push({
+        message: `Unable to resolve behavior \`${behaviorName}\`. ` +
+            `Did you import it? Is it annotated with @polymerBehavior?`,
+        sourceRange,
+        severity: Severity.WARNING,
+        code: 'unknown-behavior'
+      });
+      continue;
     }
     if (resolvedBehaviors.has(behavior)) {
       continue;
     }
     resolvedBehaviors.add(behavior);
     _getFlattenedAndResolvedBehaviors(
-        behavior.behaviors, document, resolvedBehaviors);
+        behavior, document, warnings, resolvedBehaviors);
   }
 }
 
-interface PropertyOrSimilar {
-  name: string;
-  inheritedFrom?: string;
-}
-interface HasName {
-  name: string;
+/**
+ * Looks up the mixins that an element applies, along with the mixins that
+ * they apply in turn. Mixins that can't be found are warned about rather than
+ * throwing, since they're commonly defined in code that we haven't analyzed.
+ */
+function getFlattenedAndResolvedMixins(
+    mixins: string[], document: Document, warnings: Warning[],
+    sourceRange: SourceRange) {
+  const resolvedMixins = new Set<Mixin>();
+  _getFlattenedAndResolvedMixins(
+      mixins, document, warnings, sourceRange, resolvedMixins);
+  return resolvedMixins;
 }
-function mergeByName<Prop extends PropertyOrSimilar>(
-    base: Prop[], inheritFrom: {name: string, vals: HasName[]}[]): Prop[] {
-  const byName = new Map<string, Prop>();
-  for (const initial of base) {
-    byName.set(initial.name, initial);
-  }
-  for (const source of inheritFrom) {
-    for (const item of source.vals) {
-      if (!byName.has(item.name)) {
-        const copy = <Prop><any>Object.assign({}, item);
-        copy.inheritedFrom = source.name;
-        byName.set(copy.name, copy);
-      }
+
+function _getFlattenedAndResolvedMixins(
+    mixins: string[], document: Document, warnings: Warning[],
+    sourceRange: SourceRange, resolvedMixins: Set<Mixin>) {
+  for (const mixinName of mixins) {
+    const mixin = getMostRecentAtId(
+        document.getById('mixin', mixinName), mixinName, warnings, sourceRange);
+    if (!mixin) {
+      warnings.push({
+        message: `Unable to resolve mixin \`${mixinName}\`. ` +
+            `Did you import it? Is it annotated with @polymerMixin?`,
+        sourceRange,
+        severity: Severity.WARNING,
+        code: 'unknown-mixin'
+      });
+      continue;
     }
+    if (resolvedMixins.has(mixin)) {
+      continue;
+    }
+    resolvedMixins.add(mixin);
+    _getFlattenedAndResolvedMixins(
+        mixin.mixins, document, warnings, sourceRange, resolvedMixins);
+  }
+}
+
+/**
+ * Like `document.getOnlyAtId`, but rather than throwing when several features
+ * share an id, e.g. because a file was loaded twice under different URLs,
+ * warns and takes the last one, which is the most recently defined.
+ */
+function getMostRecentAtId<F>(
+    features: Set<F>, id: string, warnings: Warning[],
+    sourceRange: SourceRange): F|undefined {
+  const all = Array.from(features);
+  if (all.length > 1) {
+    warnings.push({
+      message: `Found ${all.length} definitions of \`${id}\`. ` +
+          `Using the last one.`,
+      sourceRange,
+      severity: Severity.WARNING,
+      code: 'multiple-definitions'
+    });
   }
-  return Array.from(byName.values());
+  return all[all.length - 1];
 }
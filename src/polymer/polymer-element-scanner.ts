@@ -20,10 +20,13 @@ import {Visitor} from '../javascript/estree-visitor';
 import * as esutil from '../javascript/esutil';
 import {JavaScriptDocument} from '../javascript/javascript-document';
 import {JavaScriptScanner} from '../javascript/javascript-scanner';
+import * as jsdoc from '../javascript/jsdoc';
+import {SourceRange} from '../model/model';
 
 import {PropertyHandlers, declarationPropertyHandlers} from './declaration-property-handlers';
 import * as docs from './docs';
 import {ScannedPolymerElement, ScannedPolymerProperty} from './element-descriptor';
+import {ScannedMixin} from './mixin-descriptor';
 
 export class PolymerElementScanner implements JavaScriptScanner {
   async scan(
@@ -45,35 +48,166 @@ class ElementVisitor implements Visitor {
   propertyHandlers: PropertyHandlers = null;
   classDetected: boolean = false;
 
+  /** How many classes deep the traversal is. */
+  private _classDepth = 0;
+
+  /**
+   * The class that induced `element`, if it's a class-based element, so that
+   * classes nested in it don't end it early.
+   */
+  private _classNode: estree.ClassDeclaration|estree.ClassExpression = null;
+
+  /**
+   * The tag names of classes that are defined inline in a
+   * `customElements.define` call.
+   */
+  private _registrations = new Map<
+      estree.ClassExpression,
+      {tagName: string, tagNameSourceRange: SourceRange}>();
+
+  /**
+   * The classes returned by mixin functions, with the names and doc comments
+   * of those functions, found before the classes themselves are visited.
+   */
+  private _mixins = new Map<
+      estree.ClassExpression|estree.ClassDeclaration,
+      {name: string, description: string|undefined}>();
+
   document: JavaScriptDocument;
   constructor(document: JavaScriptDocument) {
     this.document = document;
   }
 
   enterClassDeclaration(node: estree.ClassDeclaration, _: estree.Node) {
+    this._enterClass(node, node.id && node.id.name);
+  }
+
+  leaveClassDeclaration(node: estree.ClassDeclaration, _parent: estree.Node) {
+    this._leaveClass(node);
+  }
+
+  enterClassExpression(node: estree.ClassExpression, parent: estree.Node) {
+    let className: string|undefined;
+    if (parent.type === 'AssignmentExpression') {
+      className = astValue.getIdentifierName(parent.left);
+    } else if (parent.type === 'VariableDeclarator') {
+      className = astValue.getIdentifierName(parent.id);
+    }
+    this._enterClass(node, className);
+  }
+
+  leaveClassExpression(node: estree.ClassExpression, _parent: estree.Node) {
+    this._leaveClass(node);
+  }
+
+  enterVariableDeclaration(
+      node: estree.VariableDeclaration, _parent: estree.Node) {
+    for (const declarator of node.declarations) {
+      if (declarator.init) {
+        this._checkForMixin(
+            node, astValue.getIdentifierName(declarator.id), declarator.init);
+      }
+    }
+  }
+
+  enterFunctionDeclaration(
+      node: estree.FunctionDeclaration, _parent: estree.Node) {
+    this._checkForMixin(node, node.id && node.id.name, node);
+  }
+
+  /**
+   * Records the class that `value` returns if it's a mixin function, either
+   * because it's annotated with `@polymerMixin` or `@mixinFunction`, or
+   * because it looks like `(base) => class extends base {...}`.
+   */
+  private _checkForMixin(
+      commentedNode: estree.Node, name: string|undefined, value: estree.Node) {
+    if (!name) {
+      return;
+    }
+    const description = esutil.getAttachedComment(commentedNode);
+    const annotation = jsdoc.parseJsdoc(description || '');
+    const isAnnotated = jsdoc.hasTag(annotation, 'polymerMixin') ||
+        jsdoc.hasTag(annotation, 'mixinFunction');
+    if (value.type === 'CallExpression') {
+      // e.g. `Polymer.dedupingMixin((base) => class extends base {...})`
+      value = value.arguments.find(isFunction) || value;
+    }
+    if (!isFunction(value)) {
+      return;
+    }
+    const classNode = getReturnedClass(value);
+    if (!classNode) {
+      return;
+    }
+    const base = value.params[0];
+    const extendsBase = base && base.type === 'Identifier' &&
+        esutil.getSuperClassAndMixins(classNode.superClass).superClass ===
+            base.name;
+    if (isAnnotated || extendsBase) {
+      this._mixins.set(classNode, {name, description});
+    }
+  }
+
+  private _enterClass(
+      node: estree.ClassDeclaration|estree.ClassExpression,
+      className: string|undefined) {
+    this._classDepth++;
     this.classDetected = true;
-    this.element = new ScannedPolymerElement({
-      description: esutil.getAttachedComment(node),
+    if (this.element) {
+      return;
+    }
+    const mixin = this._mixins.get(node);
+    if (!mixin && !isPolymerElementClass(node)) {
+      return;
+    }
+    this._classNode = node;
+    const options = {
+      description: mixin ? mixin.description : esutil.getAttachedComment(node),
       events: esutil.getEventComments(node),
       sourceRange: this.document.sourceRangeForNode(node)
-    });
+    };
+    this.element =
+        mixin ? new ScannedMixin(options) : new ScannedPolymerElement(options);
+    docs.annotate(this.element);
+    this.element.description = (this.element.description || '').trim();
+    const {superClass, mixins} = esutil.getSuperClassAndMixins(node.superClass);
+    this.element.mixins = Array.from(
+        new Set(mixins.concat(getAppliedMixins(this.element.jsdoc))));
+    if (mixin) {
+      // The superclass of a mixin's class is whatever it's applied to.
+      this.element.className = mixin.name;
+    } else {
+      this.element.className = className;
+      this.element.superClass = superClass;
+    }
     this.propertyHandlers =
         declarationPropertyHandlers(this.element, this.document);
   }
 
-  leaveClassDeclaration(_: estree.ClassDeclaration, _parent: estree.Node) {
+  private _leaveClass(node: estree.ClassDeclaration|estree.ClassExpression) {
+    this._classDepth--;
+    this.classDetected = this._classDepth > 0;
+    if (node !== this._classNode) {
+      return;
+    }
     this.element.properties.map((property) => docs.annotate(property));
-    // TODO(justinfagnani): this looks wrong, class definitions can be nested
-    // so a definition in a method in a Polymer() declaration would end the
-    // declaration early. We should track which class induced the current
-    // element and finish the element when leaving _that_ class.
+    const registration =
+        node.type === 'ClassExpression' && this._registrations.get(node);
+    if (registration && !this.element.tagName) {
+      Object.assign(this.element, registration);
+    }
+    this.features.push(this.element);
     this.element = null;
     this.propertyHandlers = null;
-    this.classDetected = false;
+    this._classNode = null;
   }
 
-  enterAssignmentExpression(node: estree.AssignmentExpression, _: estree.Node) {
+  enterAssignmentExpression(
+      node: estree.AssignmentExpression, parent: estree.Node) {
     if (!this.element) {
+      this._checkForMixin(
+          parent, astValue.getIdentifierName(node.left), node.right);
       return;
     }
     const left = <estree.MemberExpression>node.left;
@@ -86,6 +220,10 @@ class ElementVisitor implements Visitor {
       if (name in this.propertyHandlers) {
         this.propertyHandlers[name](node.right);
       }
+      if (left.object && !left.computed) {
+        // In a class's methods, which are visited.
+        addAssignedProperties(this.element, [name]);
+      }
     }
   }
 
@@ -93,6 +231,20 @@ class ElementVisitor implements Visitor {
     if (!this.element) {
       return;
     }
+    const name = esutil.objectKeyToString(node.key);
+    if (node.kind === 'get' && name in this.propertyHandlers) {
+      // e.g. `static get properties() { return {...}; }`, which is handled
+      // just like the `properties` key of a `Polymer({...})` call.
+      const returned = getReturnedValue(node.value);
+      if (returned) {
+        this.propertyHandlers[name](returned);
+      }
+      return;
+    }
+    if (node.static) {
+      // Static members don't become properties of instances.
+      return;
+    }
     const prop = <estree.Property>{
       key: node.key,
       value: node.value,
@@ -103,25 +255,8 @@ class ElementVisitor implements Visitor {
       computed: false,
       type: 'Property'
     };
-    const propDesc = docs.annotate(esutil.toScannedPolymerProperty(
-        prop, this.document.sourceRangeForNode(prop)));
-    if (prop && prop.kind === 'get' &&
-        (propDesc.name === 'behaviors' || propDesc.name === 'observers')) {
-      const returnStatement = <estree.ReturnStatement>node.value.body.body[0];
-      const argument = <estree.ArrayExpression>returnStatement.argument;
-      if (propDesc.name === 'behaviors') {
-        argument.elements.forEach((elementNode) => {
-          this.element.behaviors.push(astValue.getIdentifierName(elementNode));
-        });
-      } else {
-        argument.elements.forEach((elementObject: estree.Literal) => {
-          this.element.observers.push(
-              {javascriptNode: elementObject, expression: elementObject.raw});
-        });
-      }
-    } else {
-      this.element.addProperty(propDesc);
-    }
+    this.element.addProperty(docs.annotate(esutil.toScannedPolymerProperty(
+        prop, this.document.sourceRangeForNode(prop))));
   }
 
   enterCallExpression(node: estree.CallExpression, parent: estree.Node) {
@@ -131,6 +266,13 @@ class ElementVisitor implements Visitor {
       return estraverse.VisitorOption.Skip;
     }
 
+    const calleeName = astValue.getIdentifierName(node.callee);
+    if (calleeName === 'customElements.define' ||
+        calleeName === 'window.customElements.define') {
+      this._handleDefine(node);
+      return;
+    }
+
     const callee = node.callee;
     if (callee.type === 'Identifier') {
       if (callee.name === 'Polymer') {
@@ -147,6 +289,35 @@ class ElementVisitor implements Visitor {
     }
   }
 
+  /**
+   * Links a class-based element to the tag name that it's registered with, as
+   * in `customElements.define(MyElement.is, MyElement)`.
+   */
+  private _handleDefine(node: estree.CallExpression) {
+    const [tagNameNode, elementDefn] = node.arguments;
+    const tagName = tagNameNode && astValue.expressionToValue(tagNameNode);
+    if (!elementDefn || typeof tagName !== 'string') {
+      // e.g. `customElements.define(MyElement.is, MyElement)`, where the
+      // class's static `is` getter already gave it its tag name.
+      return;
+    }
+    const registration = {
+      tagName,
+      tagNameSourceRange: this.document.sourceRangeForNode(tagNameNode)
+    };
+    if (elementDefn.type === 'ClassExpression') {
+      // The class hasn't been visited yet.
+      this._registrations.set(elementDefn, registration);
+      return;
+    }
+    const className = astValue.getIdentifierName(elementDefn);
+    const element =
+        this.features.find((feature) => feature.className === className);
+    if (element && !element.tagName) {
+      Object.assign(element, registration);
+    }
+  }
+
   leaveCallExpression(node: estree.CallExpression, _: estree.Node) {
     const callee = node.callee;
     const args = node.arguments;
@@ -187,6 +358,8 @@ class ElementVisitor implements Visitor {
           this.propertyHandlers[name](prop.value);
           continue;
         }
+        // The object's methods aren't visited, since we skip it.
+        addAssignedProperties(this.element, getThisAssignments(prop.value));
         const scannedPolymerProperty = esutil.toScannedPolymerProperty(
             prop, this.document.sourceRangeForNode(prop));
         if (scannedPolymerProperty.getter) {
@@ -218,3 +391,115 @@ class ElementVisitor implements Visitor {
     }
   }
 }
+
+function addAssignedProperties(
+    element: ScannedPolymerElement, names: string[]) {
+  for (const name of names) {
+    if (element.assignedProperties.indexOf(name) === -1) {
+      element.assignedProperties.push(name);
+    }
+  }
+}
+
+/**
+ * The names of the properties that code assigns to with `this.name = ...`.
+ */
+function getThisAssignments(node: estree.Node): string[] {
+  const names: string[] = [];
+  estraverse.traverse(node, {
+    enter: (child: estree.Node) => {
+      if (child.type !== 'AssignmentExpression' ||
+          child.left.type !== 'MemberExpression') {
+        return;
+      }
+      const left = child.left;
+      if (left.object.type === 'ThisExpression' && !left.computed &&
+          left.property.type === 'Identifier') {
+        names.push(left.property.name);
+      }
+    },
+    keys: {Super: []}
+  });
+  return names;
+}
+
+/**
+ * Whether a class defines a Polymer element, i.e. it has a static `is` getter
+ * or it extends `Polymer.Element`, possibly through mixins like
+ * `Polymer.GestureEventListeners(Polymer.Element)`.
+ */
+export function isPolymerElementClass(node: estree.ClassDeclaration|
+                                      estree.ClassExpression): boolean {
+  const hasStaticIs = node.body.body.some(
+      (member) => member.static && member.kind === 'get' &&
+          esutil.objectKeyToString(member.key) === 'is');
+  return hasStaticIs || extendsPolymerElement(node.superClass);
+}
+
+function extendsPolymerElement(superClass: estree.Node|null): boolean {
+  if (!superClass) {
+    return false;
+  }
+  if (superClass.type === 'CallExpression') {
+    return superClass.arguments.some(extendsPolymerElement);
+  }
+  return astValue.getIdentifierName(superClass) === 'Polymer.Element';
+}
+
+type AnyFunction = estree.ArrowFunctionExpression|
+                   estree.FunctionExpression|estree.FunctionDeclaration;
+
+function isFunction(node: estree.Node): node is AnyFunction {
+  return node.type === 'ArrowFunctionExpression' ||
+      node.type === 'FunctionExpression' || node.type === 'FunctionDeclaration';
+}
+
+/**
+ * The class that a mixin function returns, either directly or by the name of
+ * a class declared in its body.
+ */
+function getReturnedClass(fn: AnyFunction): estree.ClassExpression|
+    estree.ClassDeclaration|undefined {
+  if (fn.body.type !== 'BlockStatement') {
+    return fn.body.type === 'ClassExpression' ? fn.body : undefined;
+  }
+  const returned = getReturnedValue(fn);
+  if (!returned) {
+    return;
+  }
+  if (returned.type === 'ClassExpression') {
+    return returned;
+  }
+  if (returned.type === 'Identifier') {
+    for (const statement of fn.body.body) {
+      if (statement.type === 'ClassDeclaration' && statement.id &&
+          statement.id.name === returned.name) {
+        return statement;
+      }
+    }
+  }
+}
+
+/**
+ * The names of the mixins listed with `@appliesMixin` tags.
+ */
+function getAppliedMixins(annotation: jsdoc.Annotation|undefined): string[] {
+  return (annotation && annotation.tags || [])
+      .filter((tag) => tag.tag === 'appliesMixin')
+      .map((tag) => (tag.name || tag.description || '').trim())
+      .filter((name) => !!name);
+}
+
+/**
+ * The value that a function, such as a getter, returns from its top level.
+ */
+function getReturnedValue(fn: AnyFunction): estree.Expression|undefined {
+  if (fn.body.type !== 'BlockStatement') {
+    return;
+  }
+  for (const statement of fn.body.body) {
+    if (statement.type === 'ReturnStatement') {
+      return statement.argument;
+    }
+  }
+}
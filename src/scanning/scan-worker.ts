@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+/**
+ * The entry point of the child processes of a `WorkerPool`. Each request is
+ * parsed and scanned with the default parsers and scanners, and its features
+ * are sent back serialized.
+ */
+
+import {Analyzer} from '../analyzer';
+import {WarningCarryingException} from '../model/model';
+
+import {serializeScannedDocument} from './serialization';
+import {ScanRequest, ScanResponse} from './worker-pool';
+
+// Documents are only ever given to the analyzer, never loaded by it.
+const analyzer = new Analyzer({
+  urlLoader: {
+    canLoad: () => false,
+    load: (url: string) => Promise.reject(new Error(`Can't load ${url}`))
+  }
+});
+
+async function handle(request: ScanRequest):
+    Promise<ScanResponse> {
+      try {
+        const scannedDocument =
+            await analyzer.scanLocally(request.url, request.contents);
+        try {
+          return {
+            id: request.id,
+            document: serializeScannedDocument(scannedDocument)
+          };
+        } catch (_) {
+          return {id: request.id};
+        }
+      } catch (error) {
+        return {
+          id: request.id,
+          error: {
+            name: error && error.name || 'Error',
+            message: error && error.message || String(error),
+            warning: error instanceof WarningCarryingException ? error.warning :
+                                                                 undefined
+          }
+        };
+      }
+    }
+
+process.on('message', (request: ScanRequest) => {
+  handle(request).then((response) => process.send!(response));
+});
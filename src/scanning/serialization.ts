@@ -0,0 +1,394 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {InlineParsedDocument, LocationOffset, ScannedDocument, ScannedElement, ScannedImport, Warning} from '../model/model';
+import {ParsedDocument} from '../parser/document';
+import {ScannedBehavior} from '../polymer/behavior-descriptor';
+import {ScannedCssCustomProperty} from '../polymer/css-custom-property-scanner';
+import {ScannedDatabinding} from '../polymer/databinding-scanner';
+import {ScannedDomModule} from '../polymer/dom-module-scanner';
+import {ScannedPolymerElement} from '../polymer/element-descriptor';
+import {ScannedMixin} from '../polymer/mixin-descriptor';
+
+/**
+ * Parses a deserialized document when its AST is needed, with the parser for
+ * its type, as `Analyzer` would have.
+ */
+export type DocumentParser =
+    (type: string, contents: string, url: string,
+     locationOffset?: LocationOffset) => ParsedDocument<any, any>;
+
+/**
+ * The classes of scanned features that can be serialized, by the names that
+ * they're serialized under. Documents with features of other classes, e.g.
+ * from custom scanners, can't be.
+ */
+const featureClasses = new Map<string, Function>([
+  ['ScannedImport', ScannedImport],
+  ['InlineParsedDocument', InlineParsedDocument],
+  ['ScannedElement', ScannedElement],
+  ['ScannedPolymerElement', ScannedPolymerElement],
+  ['ScannedBehavior', ScannedBehavior],
+  ['ScannedMixin', ScannedMixin],
+  ['ScannedDomModule', ScannedDomModule],
+  ['ScannedDatabinding', ScannedDatabinding],
+  ['ScannedCssCustomProperty', ScannedCssCustomProperty],
+]);
+
+const featureClassNames = new Map<Function, string>();
+for (const [name, featureClass] of featureClasses) {
+  featureClassNames.set(featureClass, name);
+}
+
+/**
+ * Fields that aren't serialized. The analyzer scans an import's document
+ * itself and links it up.
+ */
+const unserializedFields = new Map<Function, Set<string>>([
+  [ScannedImport, new Set(['scannedDocument'])],
+]);
+
+/**
+ * The features of a scanned document and its inline documents, in a form that
+ * can be written as JSON. The features' references to AST nodes are written as
+ * their paths in the document's AST.
+ */
+export interface SerializedDocument {
+  url: string;
+  type: string;
+  isInline: boolean;
+  locationOffset?: LocationOffset;
+  warnings: SerializedArray;
+  features: SerializedArray;
+}
+
+/**
+ * A value written as JSON. Plain objects are written as their fields, unless
+ * they have a `$type` field, and everything else as a `SerializedTaggedValue`.
+ */
+export type SerializedValue = null|boolean|number|string|SerializedArray|
+    SerializedFields|SerializedTaggedValue;
+
+export interface SerializedArray extends Array<SerializedValue> {}
+
+export interface SerializedFields { [key: string]: SerializedValue; }
+
+export type SerializedTaggedValue = {
+  $type: 'undefined'
+}|{
+  $type: 'ast',
+  path: AstPath
+}|{
+  $type: 'document',
+  document: SerializedDocument
+}|{
+  $type: 'Set',
+  values: SerializedArray
+}|{
+  $type: 'Map',
+  entries: SerializedArray
+}|{
+  $type: 'object',
+  fields: SerializedFields
+}|{
+  $type: 'class',
+  name: string,
+  fields: SerializedFields
+};
+
+/**
+ * Where an AST node is in the AST of its document, as the keys to follow from
+ * the root.
+ */
+export type AstPath = (string|number)[];
+
+/**
+ * Serializes the features of a scanned document, without its dependencies.
+ *
+ * Throws if it has features that can't be serialized.
+ */
+export function serializeScannedDocument(scannedDocument: ScannedDocument):
+    SerializedDocument {
+  const findAstPath = indexAst(scannedDocument.document.ast);
+  const serialize = (values: any[]) =>
+      values.map((value) => serializeValue(value, findAstPath, new Set()));
+  return {
+    url: scannedDocument.url,
+    type: scannedDocument.type,
+    isInline: scannedDocument.isInline,
+    locationOffset: scannedDocument.locationOffset,
+    warnings: serialize(scannedDocument.warnings),
+    features: serialize(scannedDocument.features)
+  };
+}
+
+/**
+ * Returns a function that finds the path to an object in the AST, or returns
+ * undefined for objects that aren't in it.
+ */
+function indexAst(ast: any): (value: any) => AstPath | undefined {
+  const parents = new Map<any, {parent: any, key: string}>();
+  parents.set(ast, undefined);
+  const toVisit = [ast];
+  for (let i = 0; i < toVisit.length; i++) {
+    const node = toVisit[i];
+    for (const key of Object.keys(node)) {
+      const child = node[key];
+      if (child !== null && typeof child === 'object' && !parents.has(child)) {
+        parents.set(child, {parent: node, key});
+        toVisit.push(child);
+      }
+    }
+  }
+  return (value: any) => {
+    if (!parents.has(value)) {
+      return undefined;
+    }
+    const path: AstPath = [];
+    for (let link = parents.get(value); link; link = parents.get(link.parent)) {
+      path.unshift(link.key);
+    }
+    return path;
+  };
+}
+
+function serializeValue(
+    value: any, findAstPath: (value: any) => AstPath | undefined,
+    ancestors: Set<{}>): SerializedValue {
+  if (value === undefined) {
+    return {$type: 'undefined'};
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    throw new Error(`Can't serialize a ${typeof value}.`);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const path = findAstPath(value);
+  if (path) {
+    return {$type: 'ast', path};
+  }
+  if (ancestors.has(value)) {
+    throw new Error(`Can't serialize a value that contains itself.`);
+  }
+  ancestors.add(value);
+  const serialize = (child: any) =>
+      serializeValue(child, findAstPath, ancestors);
+  // AST nodes are read back as getters on the objects that hold them, which
+  // sets and maps can't have.
+  const serializeEntry = (entry: any) => {
+    if (findAstPath(entry)) {
+      throw new Error(`Can't serialize an AST node in a Set or Map.`);
+    }
+    return serialize(entry);
+  };
+  const serializeFields = (excluded?: Set<string>) => {
+    const fields: SerializedFields = {};
+    for (const key of Object.keys(value)) {
+      if (value[key] !== undefined && !(excluded && excluded.has(key))) {
+        fields[key] = serialize(value[key]);
+      }
+    }
+    return fields;
+  };
+  try {
+    if (Array.isArray(value)) {
+      return value.map(serialize);
+    }
+    if (value instanceof ScannedDocument) {
+      return {$type: 'document', document: serializeScannedDocument(value)};
+    }
+    if (value instanceof Set) {
+      return {$type: 'Set', values: Array.from(value).map(serializeEntry)};
+    }
+    if (value instanceof Map) {
+      return {
+        $type: 'Map',
+        entries: Array.from(value).map(
+            ([key, entry]) => [serializeEntry(key), serializeEntry(entry)])
+      };
+    }
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype === Object.prototype || prototype === null) {
+      const fields = serializeFields();
+      return '$type' in value ? {$type: 'object', fields} : fields;
+    }
+    const className = featureClassNames.get(value.constructor);
+    if (!className) {
+      throw new Error(`Can't serialize a ${value.constructor.name}.`);
+    }
+    return {
+      $type: 'class',
+      name: className,
+      fields: serializeFields(unserializedFields.get(value.constructor))
+    };
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+interface DeserializationContext {
+  parse: DocumentParser;
+  /** Returns the AST of the document whose features are being read. */
+  getAst: () => any;
+  /** The object whose fields are being read. */
+  owner?: any;
+}
+
+/**
+ * Reads a serialized document back. Its AST isn't parsed until it's used,
+ * including through one of its features' references to AST nodes.
+ *
+ * Its dependencies aren't included. The analyzer links them up.
+ */
+export function deserializeScannedDocument(
+    serialized: SerializedDocument, getContents: () => string,
+    parse: DocumentParser): ScannedDocument {
+  const scannedDocument = new ScannedDocument(
+      {
+        url: serialized.url,
+        type: serialized.type,
+        parse: () => parse(
+                   serialized.type, getContents(), serialized.url,
+                   serialized.isInline ? serialized.locationOffset : undefined)
+      },
+      [], [], serialized.locationOffset);
+  scannedDocument.isInline = serialized.isInline;
+  const context: DeserializationContext = {
+    parse,
+    getAst: () => scannedDocument.document.ast
+  };
+  scannedDocument.warnings =
+      deserializeArray(serialized.warnings, context) as Warning[];
+  scannedDocument.features = deserializeArray(serialized.features, context);
+  return scannedDocument;
+}
+
+/**
+ * A reference to a node of the AST of a deserialized document, which is read
+ * back as a getter on the object that holds it.
+ */
+class AstReference {
+  constructor(public path: AstPath) {
+  }
+}
+
+function deserializeValue(
+    value: SerializedValue, context: DeserializationContext): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return deserializeArray(value, context);
+  }
+  if (!('$type' in value)) {
+    return deserializeFields(value as SerializedFields, {}, context);
+  }
+  const tagged = value as SerializedTaggedValue;
+  switch (tagged.$type) {
+    case 'object':
+      return deserializeFields(tagged.fields, {}, context);
+    case 'undefined':
+      return undefined;
+    case 'ast':
+      return new AstReference(tagged.path);
+    case 'document': {
+      // Only inline documents contain scanned documents, and they're parsed
+      // from the inline document's contents.
+      const owner = context.owner;
+      return deserializeScannedDocument(
+          tagged.document, () => owner.contents, context.parse);
+    }
+    case 'Set':
+      return new Set(
+          tagged.values.map((entry) => deserializeEntry(entry, context)));
+    case 'Map':
+      return new Map(tagged.entries.map((entry: SerializedArray) => {
+        const [key, mapped] =
+            entry.map((value) => deserializeEntry(value, context));
+        return [key, mapped] as [any, any];
+      }));
+    case 'class': {
+      const featureClass = featureClasses.get(tagged.name);
+      if (!featureClass) {
+        throw new Error(`Unknown serialized class: ${tagged.name}`);
+      }
+      return deserializeFields(
+          tagged.fields, Object.create(featureClass.prototype), context);
+    }
+  }
+  throw new Error(`Unknown serialized value: ${(tagged as any).$type}`);
+}
+
+function deserializeArray(
+    values: SerializedArray, context: DeserializationContext): any[] {
+  const array: any[] = [];
+  values.forEach((value, index) => {
+    deserializeInto(array, index, value, context);
+  });
+  return array;
+}
+
+function deserializeFields(
+    fields: SerializedFields, target: any, context: DeserializationContext) {
+  const fieldContext = Object.assign({}, context, {owner: target});
+  for (const key of Object.keys(fields)) {
+    deserializeInto(target, key, fields[key], fieldContext);
+  }
+  return target;
+}
+
+function deserializeEntry(
+    value: SerializedValue, context: DeserializationContext) {
+  const entry = deserializeValue(value, context);
+  if (entry instanceof AstReference) {
+    throw new Error(`AST nodes can't be read back into a Set or Map.`);
+  }
+  return entry;
+}
+
+/**
+ * Sets `target[key]` to a deserialized value. References to AST nodes become
+ * getters that parse the document and find the node the first time that
+ * they're read, and then replace themselves with it, so that they're the same
+ * nodes as in the document's AST. Resolved features should read AST nodes
+ * from their scanned features when they're used, rather than copy them, so
+ * that resolving doesn't parse the document.
+ */
+function deserializeInto(
+    target: any, key: string|number, value: SerializedValue,
+    context: DeserializationContext) {
+  const deserialized = deserializeValue(value, context);
+  if (!(deserialized instanceof AstReference)) {
+    target[key] = deserialized;
+    return;
+  }
+  const setNode = (node: any) => {
+    Object.defineProperty(
+        target, key,
+        {value: node, writable: true, enumerable: true, configurable: true});
+  };
+  Object.defineProperty(target, key, {
+    get: () => {
+      const node = deserialized.path.reduce(
+          (parent: any, pathKey: string|number) => parent[pathKey],
+          context.getAst());
+      setNode(node);
+      return node;
+    },
+    set: setNode,
+    enumerable: true,
+    configurable: true
+  });
+}
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {ChildProcess, fork} from 'child_process';
+import * as os from 'os';
+import * as pathlib from 'path';
+
+import {Warning, WarningCarryingException} from '../model/model';
+
+import {SerializedDocument} from './serialization';
+
+/**
+ * Asks a worker to parse and scan a document.
+ */
+export interface ScanRequest {
+  id: number;
+  url: string;
+  contents: string;
+}
+
+/**
+ * A worker's answer to a `ScanRequest`. It has neither a document nor an error
+ * when the document was scanned but its features can't be serialized.
+ */
+export interface ScanResponse {
+  id: number;
+  document?: SerializedDocument;
+  error?: {name: string; message: string; warning?: Warning};
+}
+
+interface Job {
+  request: ScanRequest;
+  resolve: (document: SerializedDocument|undefined) => void;
+  reject: (error: Error) => void;
+}
+
+const workerPath = pathlib.join(__dirname, 'scan-worker.js');
+
+/**
+ * Parses and scans documents in child processes, so that an analyzer can keep
+ * several cores busy. Workers are started as they're needed, up to `size` of
+ * them, and each scans one document at a time with the default parsers and
+ * scanners.
+ *
+ * Workers keep the process alive until the pool is disposed.
+ */
+export class WorkerPool {
+  size: number;
+  private _workers = new Set<ChildProcess>();
+  private _idleWorkers: ChildProcess[] = [];
+  private _jobsByWorker = new Map<ChildProcess, Job>();
+  private _queue: Job[] = [];
+  private _nextId = 0;
+  private _disposed = false;
+
+  constructor(size = os.cpus().length) {
+    if (!(size >= 1)) {
+      throw new Error(`A worker pool needs at least one worker, not ${size}.`);
+    }
+    this.size = size;
+  }
+
+  /**
+   * Parses and scans a document in a worker, without its imports. Resolves to
+   * undefined if its features can't be serialized, and rejects with the error
+   * that parsing or scanning it threw, or with a `WarningCarryingException`
+   * if it had one.
+   */
+  scan(url: string, contents: string): Promise<SerializedDocument|undefined> {
+    if (this._disposed) {
+      return Promise.reject(new Error('The worker pool was disposed.'));
+    }
+    return new Promise((resolve, reject) => {
+      this._queue.push(
+          {request: {id: this._nextId++, url, contents}, resolve, reject});
+      this._dispatch();
+    });
+  }
+
+  /**
+   * Stops the workers. Scans that haven't finished are rejected.
+   */
+  dispose() {
+    this._disposed = true;
+    for (const job of this._queue.splice(0)) {
+      job.reject(new Error('The worker pool was disposed.'));
+    }
+    for (const worker of this._workers) {
+      worker.kill();
+    }
+  }
+
+  private _dispatch() {
+    while (this._queue.length > 0) {
+      let worker = this._idleWorkers.pop();
+      if (!worker) {
+        if (this._workers.size >= this.size) {
+          return;
+        }
+        worker = this._startWorker();
+      }
+      const job = this._queue.shift()!;
+      this._jobsByWorker.set(worker, job);
+      worker.send(job.request);
+    }
+  }
+
+  private _startWorker(): ChildProcess {
+    const worker = fork(workerPath);
+    this._workers.add(worker);
+    worker.on('message', (response: ScanResponse) => {
+      const job = this._jobsByWorker.get(worker);
+      if (!job || job.request.id !== response.id) {
+        return;
+      }
+      this._jobsByWorker.delete(worker);
+      this._idleWorkers.push(worker);
+      if (response.error) {
+        job.reject(deserializeError(response.error));
+      } else {
+        job.resolve(response.document);
+      }
+      this._dispatch();
+    });
+    // Failing to start a worker or to message it is followed by its exit.
+    worker.on('error', () => {});
+    worker.on('exit', () => {
+      this._workers.delete(worker);
+      const index = this._idleWorkers.indexOf(worker);
+      if (index !== -1) {
+        this._idleWorkers.splice(index, 1);
+      }
+      const job = this._jobsByWorker.get(worker);
+      this._jobsByWorker.delete(worker);
+      if (job) {
+        job.reject(new Error(
+            `The worker scanning ${job.request.url} exited unexpectedly.`));
+      }
+      if (!this._disposed) {
+        this._dispatch();
+      }
+    });
+    return worker;
+  }
+}
+
+function deserializeError(
+    error: {name: string, message: string, warning?: Warning}): Error {
+  if (error.warning) {
+    return new WarningCarryingException(error.warning);
+  }
+  const result = new Error(error.message);
+  result.name = error.name;
+  return result;
+}
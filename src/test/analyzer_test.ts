@@ -15,6 +15,7 @@
 /// <reference path="../../node_modules/@types/mocha/index.d.ts" />
 
 import {assert} from 'chai';
+import * as path from 'path';
 
 import {Analyzer} from '../analyzer';
 import {InlineParsedDocument, ScannedImport} from '../model/model';
@@ -22,6 +23,8 @@ import {ParsedHtmlDocument} from '../html/html-document';
 import {HtmlParser} from '../html/html-parser';
 import {JavaScriptDocument} from '../javascript/javascript-document';
 import {FSUrlLoader} from '../url-loader/fs-url-loader';
+import {NpmUrlResolver} from '../url-loader/npm-url-resolver';
+import {OverlayUrlLoader} from '../url-loader/overlay-loader';
 import {UrlResolver} from '../url-loader/url-resolver';
 
 import {invertPromise} from './test-utils';
@@ -122,12 +125,370 @@ suite('Analyzer', () => {
           inFolder);
     });
 
+    test('warns about bindings that do not match the element', async() => {
+      const document =
+          await analyzer.analyzeRoot('static/databinding/validation.html');
+      const warnings = document.getWarnings().map(
+          w => [w.code, w.sourceRange.start.line, w.sourceRange.start.column]);
+      assert.deepEqual(warnings, [
+        ['undefined-binding-property', 13, 45],
+        ['undefined-binding-method', 14, 48],
+        ['read-only-two-way-binding', 16, 20],
+        ['undefined-binding-property', 19, 39],
+      ]);
+    });
+
+    test('validates bindings against inherited properties', async() => {
+      const document =
+          await analyzer.analyzeRoot('static/databinding/inherited.html');
+      const warnings = document.getWarnings().map(
+          w => [w.code, w.sourceRange.start.line, w.sourceRange.start.column]);
+      assert.deepEqual(warnings, [['undefined-binding-property', 2, 30]]);
+    });
+
+    test('finds the css variables of an element', async() => {
+      const document =
+          await analyzer.analyzeRoot('static/styling/css-variables.html');
+      const element = document.getOnlyAtId('polymer-element', 'themed-elem');
+      assert.deepEqual(
+          element.cssVariables.map(
+              v => [v.name, v.type, v.description, v.fallbackBehavior]),
+          [
+            [
+              '--themed-elem-color', 'color', 'The color of the label.',
+              'var(--primary-text-color)'
+            ],
+            ['--primary-text-color', undefined, undefined, undefined],
+            ['--themed-elem', 'mixin', undefined, undefined],
+          ]);
+      assert.deepEqual(element.cssVariables[0].sourceRange, {
+        file: 'static/styling/css-variables.html',
+        start: {line: 4, column: 30},
+        end: {line: 4, column: 49}
+      });
+    });
+
+    test('inherits the members of class mixins', async() => {
+      const document = await analyzer.analyzeRoot('static/mixins/mixins.js');
+      assert.deepEqual(
+          Array.from(document.getByKind('mixin')).map(m => m.className),
+          ['GreetingMixin', 'Polymer.NamedMixin']);
+      const element =
+          document.getOnlyAtId('polymer-element', 'greeting-element');
+      assert.equal(element.superClass, 'Polymer.Element');
+      assert.deepEqual(
+          element.mixins, ['Polymer.NamedMixin', 'UndefinedMixin']);
+      assert.deepEqual(element.properties.map(p => [p.name, p.inheritedFrom]), [
+        ['punctuation', undefined],
+        ['name', 'Polymer.NamedMixin'],
+        ['greeting', 'GreetingMixin'],
+      ]);
+      assert.deepEqual(element.events.map(e => e.name), ['greeting-changed']);
+      assert.deepEqual(
+          element.warnings.map(w => [w.code, w.message]), [[
+            'unknown-mixin',
+            'Unable to resolve mixin `UndefinedMixin`. Did you import it? ' +
+                'Is it annotated with @polymerMixin?'
+          ]]);
+    });
+
+    test('inherits the members of vanilla superclasses', async() => {
+      const document = await analyzer.analyzeRoot(
+          'static/inheritance/vanilla-inheritance.html');
+      const leaf = document.getOnlyAtId('element', 'leaf-element');
+      assert.equal(leaf.superClass, 'MiddleElement');
+      assert.deepEqual(leaf.attributes.map(a => [a.name, a.inheritedFrom]), [
+        ['middle-attr', 'MiddleElement'],
+        ['shared-attr', 'MiddleElement'],
+        ['base-attr', 'MiddleElement'],
+      ]);
+      const middle = document.getOnlyAtId('element', 'middle-element');
+      assert.deepEqual(middle.attributes.map(a => [a.name, a.inheritedFrom]), [
+        ['middle-attr', undefined],
+        ['shared-attr', undefined],
+        ['base-attr', 'BaseElement'],
+      ]);
+      assert.deepEqual(
+          middle.events.map(e => [e.name, e.inheritedFrom]),
+          [['base-changed', 'BaseElement']]);
+      assert.deepEqual(middle.warnings, []);
+
+      const orphan = document.getOnlyAtId('element', 'orphan-element');
+      assert.deepEqual(
+          orphan.warnings.map(w => [w.code, w.message]), [[
+            'unknown-superclass',
+            'Unable to resolve superclass `UnknownElement` of OrphanElement. ' +
+                'Did you import it?'
+          ]]);
+    });
+
+    test('inherits the members of Polymer element superclasses', async() => {
+      const document = await analyzer.analyzeRoot(
+          'static/inheritance/polymer-inheritance.html');
+      const sub = document.getOnlyAtId('element', 'sub-el');
+      assert.equal(sub.superClass, 'BaseEl');
+      assert.deepEqual(sub.properties.map(p => [p.name, p.inheritedFrom]), [
+        ['own', undefined],
+        ['shared', 'BaseEl'],
+        ['fromMixin', 'BaseEl'],
+      ]);
+      assert.deepEqual(sub.warnings, []);
+      const base = document.getOnlyAtId('element', 'base-el');
+      assert.deepEqual(base.warnings, []);
+    });
+
+    test('inherits from superclasses declared after the subclass', async() => {
+      const document = await analyzer.analyzeRoot(
+          'static/inheritance/subclass-first.html');
+      const sub = document.getOnlyAtId('element', 'sub-element');
+      assert.deepEqual(sub.attributes.map(a => [a.name, a.inheritedFrom]), [
+        ['base-attr', 'BaseElement'],
+        ['shared-attr', 'BaseElement'],
+      ]);
+      assert.deepEqual(sub.warnings, []);
+    });
+
+    test('follows the imports of JavaScript modules', async() => {
+      const packageDir = path.join(__dirname, 'static/npm-url-resolver');
+      const npmAnalyzer = new Analyzer({
+        urlLoader: new FSUrlLoader(packageDir),
+        urlResolver: new NpmUrlResolver({packageDir}),
+      });
+      const document = await npmAnalyzer.analyzeRoot('src/app.js');
+      assert.deepEqual(
+          Array.from(document.getByKind('document')).map((d) => d.url), [
+            'src/app.js',
+            'node_modules/dep/dep.module.js',
+            'node_modules/dep/node_modules/nested/index.js',
+            'node_modules/@scope/scoped/scoped.js',
+            'node_modules/dep/helper.js',
+            'src/local.js',
+          ]);
+      assert.deepEqual(
+          document.getWarnings({deep: true}).map((w) => w.message),
+          ['Unable to resolve the import of `missing`. Is it installed?']);
+    });
+
     test(`rejects for files that don't exist`, async() => {
       await invertPromise(analyzer.analyzeRoot('/static/does_not_exist'));
     });
 
   });
 
+  suite('analyzeRoots()', () => {
+
+    test('combines and deduplicates the graphs of every root', async() => {
+      const analysis = await analyzer.analyzeRoots([
+        'static/dependencies/inline-and-imports.html',
+        'static/dependencies/subfolder/in-folder.html',
+        'static/dependencies/leaf.html',
+      ]);
+
+      assert.deepEqual(analysis.roots.map(r => r.url), [
+        'static/dependencies/inline-and-imports.html',
+        'static/dependencies/subfolder/in-folder.html',
+        'static/dependencies/leaf.html',
+      ]);
+
+      assert.deepEqual(
+          Array.from(analysis.getByKind('document'))
+              .map((d) => [d.url, d.parsedDocument.type, d.isInline]),
+          [
+            ['static/dependencies/inline-and-imports.html', 'html', false],
+            ['static/dependencies/inline-and-imports.html', 'js', true],
+            ['static/dependencies/subfolder/in-folder.html', 'html', false],
+            [
+              'static/dependencies/subfolder/subfolder-sibling.html', 'html',
+              false
+            ],
+            ['static/dependencies/inline-and-imports.html', 'css', true],
+            ['static/dependencies/leaf.html', 'html', false],
+          ]);
+
+      // The root passed first provides the instance for shared features.
+      const inFolder = analysis.getOnlyAtId(
+          'document', 'static/dependencies/subfolder/in-folder.html');
+      assert.equal(
+          inFolder,
+          analysis.roots[0].getOnlyAtId(
+              'document', 'static/dependencies/subfolder/in-folder.html'));
+    });
+
+    test('records which roots can reach each feature', async() => {
+      const analysis = await analyzer.analyzeRoots([
+        'static/dependencies/inline-and-imports.html',
+        'static/dependencies/subfolder/in-folder.html',
+        'static/dependencies/leaf.html',
+      ]);
+      const urlsOfRootsReaching = (url: string) =>
+          analysis.getRootsReaching(analysis.getOnlyAtId('document', url))
+              .map(r => r.url);
+
+      assert.deepEqual(
+          urlsOfRootsReaching(
+              'static/dependencies/subfolder/subfolder-sibling.html'),
+          [
+            'static/dependencies/inline-and-imports.html',
+            'static/dependencies/subfolder/in-folder.html',
+          ]);
+      assert.deepEqual(
+          urlsOfRootsReaching('static/dependencies/leaf.html'),
+          ['static/dependencies/leaf.html']);
+    });
+
+    test('links import cycles into the graph of every root', async() => {
+      const loader = new OverlayUrlLoader();
+      loader.set('a.html', `<link rel="import" href="b.html">
+                            <script>Polymer({is: 'in-a'});</script>`);
+      loader.set('b.html', `<link rel="import" href="c.html">`);
+      loader.set('c.html', `<link rel="import" href="a.html">`);
+      const inMemoryAnalyzer = new Analyzer({urlLoader: loader});
+      const analysis =
+          await inMemoryAnalyzer.analyzeRoots(['a.html', 'b.html']);
+
+      for (const root of analysis.roots) {
+        assert.deepEqual(
+            Array.from(root.getByKind('element')).map((e) => e.tagName),
+            ['in-a'], `elements reachable from ${root.url}`);
+        assert.deepEqual(
+            root.getWarnings({deep: true}).map((w) => w.code),
+            ['import-cycle'], `warnings reachable from ${root.url}`);
+      }
+    });
+
+  });
+
+  suite('filesChanged()', () => {
+    let loader: OverlayUrlLoader;
+    let inMemoryAnalyzer: Analyzer;
+
+    setup(() => {
+      loader = new OverlayUrlLoader();
+      loader.set('root.html', `<link rel="import" href="middle.html">`);
+      loader.set('middle.html', `<link rel="import" href="leaf.html">`);
+      loader.set('leaf.html', `<div id="before"></div>`);
+      loader.set('other.html', `<div id="other"></div>`);
+      inMemoryAnalyzer = new Analyzer({urlLoader: loader});
+    });
+
+    test('reuses resolved roots when nothing has changed', async() => {
+      const root = await inMemoryAnalyzer.analyzeRoot('root.html');
+      assert.equal(await inMemoryAnalyzer.analyzeRoot('root.html'), root);
+    });
+
+    test('reloads changed files in every root that includes them', async() => {
+      const root = await inMemoryAnalyzer.analyzeRoot('root.html');
+      const other = await inMemoryAnalyzer.analyzeRoot('other.html');
+      const middle = root.getOnlyAtId('document', 'middle.html');
+
+      loader.set('leaf.html', `<div id="after"></div>`);
+      inMemoryAnalyzer.filesChanged(['leaf.html']);
+
+      const newRoot = await inMemoryAnalyzer.analyzeRoot('root.html');
+      assert.notEqual(newRoot, root);
+      assert.equal(
+          newRoot.getOnlyAtId('document', 'leaf.html').parsedDocument.contents,
+          `<div id="after"></div>`);
+      // Documents importing the changed file are rescanned but not reparsed.
+      assert.equal(
+          newRoot.getOnlyAtId('document', 'middle.html').parsedDocument,
+          middle.parsedDocument);
+      // Roots that don't include the changed file aren't resolved again.
+      assert.equal(await inMemoryAnalyzer.analyzeRoot('other.html'), other);
+    });
+
+    test('updates importers when given new contents for a file', async() => {
+      await inMemoryAnalyzer.analyzeRoot('root.html');
+      await inMemoryAnalyzer.analyzeRoot(
+          'leaf.html', `<div id="edited"></div>`);
+
+      const root = await inMemoryAnalyzer.analyzeRoot('root.html');
+      assert.equal(
+          root.getOnlyAtId('document', 'leaf.html').parsedDocument.contents,
+          `<div id="edited"></div>`);
+    });
+
+    test('finds the scanned roots that import a file', async() => {
+      assert.deepEqual(
+          inMemoryAnalyzer.getRootsImporting(['leaf.html']), ['leaf.html']);
+      await inMemoryAnalyzer.analyzeRoot('root.html');
+      await inMemoryAnalyzer.analyzeRoot('other.html');
+      assert.deepEqual(
+          inMemoryAnalyzer.getRootsImporting(['leaf.html']), ['root.html']);
+      assert.sameMembers(
+          inMemoryAnalyzer.getRootsImporting(['middle.html', 'other.html']),
+          ['root.html', 'other.html']);
+    });
+
+  });
+
+  suite('getWarnings()', () => {
+    let inMemoryAnalyzer: Analyzer;
+
+    setup(() => {
+      const loader = new OverlayUrlLoader();
+      const behavior = `<script>
+        /** @polymerBehavior */
+        MyBehavior = {properties: {fromBehavior: String}};
+      </script>`;
+      loader.set('root.html', `
+        <link rel="import" href="behavior.html">
+        <link rel="import" href="behavior-copy.html">
+        <script>
+          Polymer({
+            is: 'my-elem',
+            behaviors: [MyBehavior, MissingBehavior]
+          });
+        </script>`);
+      loader.set('behavior.html', behavior);
+      loader.set(
+          'behavior-copy.html',
+          `<link rel="import" href="does-not-exist.html">${behavior}`);
+      inMemoryAnalyzer = new Analyzer({urlLoader: loader});
+    });
+
+    test('turns resolution failures into warnings', async() => {
+      const root = await inMemoryAnalyzer.analyzeRoot('root.html');
+      const element = root.getOnlyAtId('polymer-element', 'my-elem');
+      assert.deepEqual(
+          element.properties.map(p => [p.name, p.inheritedFrom]),
+          [['fromBehavior', 'MyBehavior']]);
+      assert.deepEqual(
+          root.getWarnings().map(
+              w => [w.code, w.sourceRange.start.line, w.message]),
+          [
+            [
+              'multiple-definitions', 6,
+              'Found 2 definitions of ' +
+                  '`MyBehavior`. Using the last one.'
+            ],
+            [
+              'unknown-behavior', 6,
+              'Unable to resolve behavior ' +
+                  '`MissingBehavior`. Did you import it? Is it annotated ' +
+                  'with @polymerBehavior?'
+            ],
+          ]);
+    });
+
+    test('gets the warnings of imported documents when deep', async() => {
+      const root = await inMemoryAnalyzer.analyzeRoot('root.html');
+      assert.deepEqual(
+          root.getWarnings({deep: true}).map(w => [w.code, w.sourceRange.file]),
+          [
+            ['multiple-definitions', 'root.html'],
+            ['unknown-behavior', 'root.html'],
+            ['could-not-load', 'behavior-copy.html'],
+          ]);
+      assert.deepEqual(
+          root.getOnlyAtId('document', 'behavior-copy.html')
+              .getWarnings()
+              .map(w => w.code),
+          ['could-not-load']);
+    });
+
+  });
+
   // TODO: reconsider whether we should test these private methods.
   suite('_load()', () => {
 
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import {FSCacheStore} from '../../cache/fs-cache-store';
+
+suite('FSCacheStore', () => {
+  const root = path.join(os.tmpdir(), `fs-cache-store-test-${process.pid}`);
+  const directory = path.join(root, 'nested', 'cache');
+
+  teardown(() => {
+    for (const dir of [directory, path.dirname(directory), root]) {
+      if (!fs.existsSync(dir)) {
+        continue;
+      }
+      for (const file of fs.readdirSync(dir)) {
+        const filePath = path.join(dir, file);
+        if (fs.statSync(filePath).isFile()) {
+          fs.unlinkSync(filePath);
+        }
+      }
+      fs.rmdirSync(dir);
+    }
+  });
+
+  test('stores values in files in its directory', async() => {
+    const store = new FSCacheStore(directory);
+    assert.equal(await store.get('abc'), undefined);
+    await store.set('abc', 'first');
+    await store.set('abc', 'second');
+    assert.equal(await store.get('abc'), 'second');
+    assert.deepEqual(fs.readdirSync(directory), ['abc.json']);
+    assert.equal(await new FSCacheStore(directory).get('abc'), 'second');
+  });
+});
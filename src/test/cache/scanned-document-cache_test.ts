@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as dom5 from 'dom5';
+import * as path from 'path';
+
+import {Analyzer} from '../../analyzer';
+import {CacheStore} from '../../cache/cache-store';
+import {ScannedDocumentCache} from '../../cache/scanned-document-cache';
+import {JavaScriptParser} from '../../javascript/javascript-parser';
+import {Document, LocationOffset, ScannedDocument} from '../../model/model';
+import {ParsedDocument} from '../../parser/document';
+import {Parser} from '../../parser/parser';
+import {FSUrlLoader} from '../../url-loader/fs-url-loader';
+import {NpmUrlResolver} from '../../url-loader/npm-url-resolver';
+import {OverlayUrlLoader} from '../../url-loader/overlay-loader';
+import {UrlLoader} from '../../url-loader/url-loader';
+
+class InMemoryCacheStore implements CacheStore {
+  values = new Map<string, string>();
+
+  async get(key: string) {
+    return this.values.get(key);
+  }
+
+  async set(key: string, value: string) {
+    this.values.set(key, value);
+  }
+}
+
+class CountingParser implements Parser<ParsedDocument<any, any>> {
+  parsedUrls: string[];
+  private _parser: Parser<ParsedDocument<any, any>>;
+
+  constructor(parser: Parser<ParsedDocument<any, any>>, parsedUrls: string[]) {
+    this._parser = parser;
+    this.parsedUrls = parsedUrls;
+  }
+
+  parse(contents: string, url: string, locationOffset?: LocationOffset) {
+    this.parsedUrls.push(url);
+    return this._parser.parse(contents, url, locationOffset);
+  }
+}
+
+class UnknownFeature {}
+
+suite('ScannedDocumentCache', () => {
+  let store: InMemoryCacheStore;
+  let parsedUrls: string[];
+
+  setup(() => {
+    store = new InMemoryCacheStore();
+    parsedUrls = [];
+  });
+
+  const makeAnalyzer = (urlLoader: UrlLoader) => {
+    const analyzer = new Analyzer({urlLoader, cacheStore: store});
+    // Counts the parses of the default parsers, which a cache requires.
+    const parsers: Map<string, Parser<ParsedDocument<any, any>>> =
+        analyzer['_parsers'];
+    for (const [type, parser] of Array.from(parsers)) {
+      parsers.set(type, new CountingParser(parser, parsedUrls));
+    }
+    return analyzer;
+  };
+
+  const describeElements = (document: Document) =>
+      Array.from(document.getByKind('element'))
+          .map(
+              (e) =>
+                  [e.tagName, e.properties.map((p) => p.name), e.sourceRange]);
+
+  suite('with the analyzer', () => {
+    const urlLoader = new FSUrlLoader(
+        path.resolve(__dirname, '../static/linter/undefined-elements'));
+
+    test('reuses cached scans instead of parsing again', async() => {
+      const original = await makeAnalyzer(urlLoader).analyzeRoot('index.html');
+      assert.equal(store.values.size, 3);
+      parsedUrls.length = 0;
+
+      const cached = await makeAnalyzer(urlLoader).analyzeRoot('index.html');
+      assert.deepEqual(parsedUrls, []);
+      assert.deepEqual(describeElements(cached), describeElements(original));
+      assert.deepEqual(
+          Array.from(cached.getByKind('dom-module')).map((m) => m.id),
+          ['local-elem']);
+      assert.deepEqual(
+          Array.from(cached.getByKind('document')).map((d) => d.kinds),
+          Array.from(original.getByKind('document')).map((d) => d.kinds));
+      assert.deepEqual(cached.getWarnings({deep: true}), []);
+    });
+
+    test('parses cached documents when their ASTs are used', async() => {
+      await makeAnalyzer(urlLoader).analyzeRoot('index.html');
+      parsedUrls.length = 0;
+
+      const cached = await makeAnalyzer(urlLoader).analyzeRoot('index.html');
+      const domModule = cached.getOnlyAtId('dom-module', 'local-elem');
+      assert.deepEqual(parsedUrls, []);
+      assert.equal(dom5.getAttribute(domModule.node, 'id'), 'local-elem');
+      assert.deepEqual(parsedUrls, ['index.html']);
+      assert.strictEqual(
+          domModule.node,
+          dom5.query(
+              cached.parsedDocument.ast,
+              dom5.predicates.hasTagName('dom-module')));
+      assert.deepEqual(parsedUrls, ['index.html']);
+
+      const document = cached.getOnlyAtId('document', 'uses-elements.html');
+      assert.equal(document.parsedDocument.url, 'uses-elements.html');
+      assert.deepEqual(parsedUrls, ['index.html', 'uses-elements.html']);
+    });
+  });
+
+  test('scans documents again when they change', async() => {
+    const urlLoader = new OverlayUrlLoader();
+    urlLoader.set('a.html', '<link rel="import" href="b.html">');
+    urlLoader.set('b.html', '<script>Polymer({is: "old-elem"});</script>');
+    await makeAnalyzer(urlLoader).analyzeRoot('a.html');
+
+    urlLoader.set('b.html', '<script>Polymer({is: "new-elem"});</script>');
+    parsedUrls.length = 0;
+    const document = await makeAnalyzer(urlLoader).analyzeRoot('a.html');
+    assert.deepEqual(parsedUrls, ['b.html', 'b.html']);
+    assert.deepEqual(
+        Array.from(document.getByKind('element')).map((e) => e.tagName),
+        ['new-elem']);
+  });
+
+  test('doesn\'t cache features it doesn\'t know how to', async() => {
+    const cache = new ScannedDocumentCache(store);
+    const parsedDocument =
+        new JavaScriptParser({sourceType: 'script'}).parse('', 'a.js');
+    await cache.set(
+        'a.js', '',
+        new ScannedDocument(parsedDocument, [], [new UnknownFeature() as any]));
+    assert.equal(store.values.size, 0);
+  });
+
+  test('can\'t be used with custom parsers or scanners', () => {
+    const urlLoader = new OverlayUrlLoader();
+    assert.throws(
+        () => new Analyzer({urlLoader, cacheStore: store, scanners: new Map()}));
+    assert.throws(
+        () => new Analyzer({urlLoader, cacheStore: store, parsers: new Map()}));
+  });
+
+  test('can\'t be used with a resolver that resolves imports', () => {
+    const urlLoader = new OverlayUrlLoader();
+    assert.throws(
+        () => new Analyzer(
+            {urlLoader, cacheStore: store, urlResolver: new NpmUrlResolver()}));
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {ExitCode, UsageError, parseArgs, run} from '../../cli/cli';
+
+suite('cli', () => {
+  const staticDir = path.resolve(__dirname, '../static');
+
+  suite('parseArgs()', () => {
+    test('parses commands, options and files', () => {
+      const options = parseArgs(
+          [
+            'deps', '--root', 'static', '--format=json', '--collapse-inline',
+            '--cache-dir', '.cache', '--workers', '2',
+            'static/dependency-graph/index.html'
+          ],
+          path.resolve(__dirname, '..'));
+      assert.equal(options.command, 'deps');
+      assert.equal(options.root, staticDir);
+      assert.equal(options.format, 'json');
+      assert.isTrue(options.collapseInline);
+      assert.equal(options.cacheDir, path.resolve(__dirname, '../.cache'));
+      assert.equal(options.workers, 2);
+      assert.deepEqual(options.files, ['dependency-graph/index.html']);
+    });
+
+    test('defaults the format by command', () => {
+      assert.equal(parseArgs(['lint', 'a.html']).format, 'text');
+      assert.equal(parseArgs(['deps', 'a.html']).format, 'dot');
+    });
+
+    test('rejects bad arguments', () => {
+      const badArgs = [
+        [], ['frobnicate', 'a.html'], ['lint'], ['lint', '--nope', 'a.html'],
+        ['lint', '--format', 'dot', 'a.html'], ['deps', 'a.html', 'b.html'],
+        ['lint', '--root', 'src', '../a.html'], ['lint', 'a.html', '--root'],
+        ['lint', '--workers', '0', 'a.html']
+      ];
+      for (const args of badArgs) {
+        assert.throws(() => parseArgs(args, '/project'), UsageError);
+      }
+    });
+  });
+
+  suite('run()', () => {
+    const runInStatic = (...args: string[]) =>
+        run(args.concat(['--root', staticDir]), staticDir);
+
+    test('prints usage with a failing exit code', async() => {
+      const result = await run(['lint']);
+      assert.equal(result.exitCode, ExitCode.Failure);
+      assert.include(result.stderr, 'Usage: polymer-analyzer');
+      assert.equal((await run(['--help'])).exitCode, ExitCode.Success);
+    });
+
+    test('prints element metadata', async() => {
+      const result =
+          await runInStatic('analyze', 'linter/undefined-elements/index.html');
+      assert.equal(result.exitCode, ExitCode.Success);
+      const metadata = JSON.parse(result.stdout);
+      assert.deepEqual(
+          metadata.elements.map((e: any) => e.tagname).sort(),
+          ['defined-elem', 'local-elem', 'vanilla-elem']);
+    });
+
+    test('prints lint warnings and fails', async() => {
+      const result =
+          await runInStatic('lint', 'linter/undefined-elements/index.html');
+      assert.equal(result.exitCode, ExitCode.ProblemsFound);
+      assert.deepEqual(result.stdout.split('\n'), [
+        'linter/undefined-elements/index.html:5:2: warning ' +
+            '[undefined-elements] The element <undefined-elem> is not ' +
+            'defined by linter/undefined-elements/index.html or anything ' +
+            'that it imports.',
+        'linter/undefined-elements/index.html:12:8: warning ' +
+            '[undefined-elements] The element <nested-undefined-elem> is ' +
+            'not defined by linter/undefined-elements/index.html or ' +
+            'anything that it imports.',
+        'linter/undefined-elements/uses-elements.html:2:2: warning ' +
+            '[undefined-elements] The element <defined-elem> is not ' +
+            'defined by linter/undefined-elements/uses-elements.html or ' +
+            'anything that it imports.',
+        '',
+      ]);
+
+      const jsonResult = await runInStatic(
+          'lint', '--format', 'json', 'linter/undefined-elements/index.html');
+      const warnings = JSON.parse(jsonResult.stdout);
+      assert.equal(warnings.length, 3);
+      assert.deepEqual(warnings[0], {
+        code: 'undefined-elements',
+        message: 'The element <undefined-elem> is not defined by ' +
+            'linter/undefined-elements/index.html or anything that it imports.',
+        severity: 'warning',
+        sourceRange: {
+          file: 'linter/undefined-elements/index.html',
+          start: {line: 4, column: 1},
+          end: {line: 4, column: 15}
+        }
+      });
+    });
+
+    test('succeeds when there are no warnings', async() => {
+      const result =
+          await runInStatic('warnings', 'dependency-graph/eager.html');
+      assert.equal(result.exitCode, ExitCode.Success);
+      assert.equal(result.stdout, '');
+    });
+
+    test('prints the import graph', async() => {
+      const result = await runInStatic(
+          'deps', '--format', 'json', 'dependency-graph/eager.html');
+      assert.equal(result.exitCode, ExitCode.Success);
+      assert.deepEqual(JSON.parse(result.stdout).edges, [{
+                         from: 'dependency-graph/eager.html',
+                         to: 'dependency-graph/app.js',
+                         type: 'html-script',
+                         lazy: false
+                       }]);
+      const dot = await runInStatic('deps', 'dependency-graph/eager.html');
+      assert.match(dot.stdout, /^digraph/);
+    });
+
+    test('fails when a file can\'t be analyzed', async() => {
+      const result = await runInStatic('warnings', 'does-not-exist.html');
+      assert.equal(result.exitCode, ExitCode.Failure);
+      assert.notEqual(result.stderr, '');
+    });
+  });
+});
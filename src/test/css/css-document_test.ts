@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as shady from 'shady-css-parser';
+
+import {CssParser} from '../../css/css-parser';
+
+suite('ParsedCssDocument', () => {
+  const contents = `/* A comment */
+@media (min-width: 600px) {
+  .foo {
+    color: red;
+  }
+}
+:host {
+  --my-mixin: {
+    display: block;
+  };
+  background: url(img.png)  ;
+}
+`;
+  const parser = new CssParser();
+
+  /**
+   * Returns the text of each node of the given type, as found by its source
+   * range.
+   */
+  function getTexts(
+      source: string, type: string,
+      locationOffset?: {line: number, col: number}) {
+    const document = parser.parse(source, 'test.css', locationOffset);
+    const texts: string[] = [];
+    document.forEachNode((node) => {
+      if (node.type !== type) {
+        return;
+      }
+      const range = document.sourceRangeForNode(node);
+      assert.equal(range.file, 'test.css');
+      texts.push(
+          `${range.start.line}:${range.start.column}-` +
+          `${range.end.line}:${range.end.column}`);
+    });
+    return texts;
+  }
+
+  test('calls forEachNode callback with every node in order', () => {
+    const document = parser.parse(contents, 'test.css');
+    const types: string[] = [];
+    document.forEachNode((node: shady.Node) => types.push(node.type));
+    assert.deepEqual(types, [
+      'stylesheet', 'comment', 'atRule', 'rulelist', 'ruleset', 'rulelist',
+      'declaration', 'expression', 'ruleset', 'rulelist', 'declaration',
+      'rulelist', 'declaration', 'expression', 'declaration', 'expression'
+    ]);
+  });
+
+  test('gets source ranges for nodes', () => {
+    assert.deepEqual(getTexts(contents, 'stylesheet'), ['0:0-12:0']);
+    assert.deepEqual(getTexts(contents, 'comment'), ['0:0-0:15']);
+    assert.deepEqual(getTexts(contents, 'atRule'), ['1:0-5:1']);
+    assert.deepEqual(getTexts(contents, 'ruleset'), ['2:2-4:3', '6:0-11:1']);
+    assert.deepEqual(
+        getTexts(contents, 'declaration'),
+        ['3:4-3:15', '7:2-9:4', '8:4-8:19', '10:2-10:29']);
+    assert.deepEqual(
+        getTexts(contents, 'expression'),
+        ['3:11-3:14', '8:13-8:18', '10:14-10:26']);
+  });
+
+  test('corrects source ranges of inline documents', () => {
+    const inline = `\n    .foo { color: red; }\n  `;
+    assert.deepEqual(
+        getTexts(inline, 'ruleset', {line: 0, col: 0}), ['1:4-1:24']);
+    assert.deepEqual(
+        getTexts(inline, 'ruleset', {line: 5, col: 9}), ['6:4-6:24']);
+    assert.deepEqual(
+        getTexts('.foo {}', 'ruleset', {line: 5, col: 9}), ['5:9-5:16']);
+  });
+});
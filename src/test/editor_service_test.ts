@@ -226,6 +226,255 @@ suite('EditorService', function() {
 
   });
 
+  suite('getReferencesFor', function() {
+    const referencesFile = path.join('editor-service', 'references.html');
+
+    test('it finds every use of an element\'s tag', async function() {
+      assert.sameDeepMembers(
+          await editorService.getReferencesFor(
+              referencesFile, {line: 3, column: 8}),
+          [
+            {
+              file: referencesFile,
+              start: {line: 3, column: 5},
+              end: {line: 3, column: 23}
+            },
+            {
+              file: indexFile,
+              start: {line: 7, column: 3},
+              end: {line: 7, column: 21}
+            }
+          ]);
+    });
+
+    test('it finds every use of an attribute', async function() {
+      assert.sameDeepMembers(
+          await editorService.getReferencesFor(
+              referencesFile, {line: 3, column: 28}),
+          [
+            {
+              file: referencesFile,
+              start: {line: 3, column: 24},
+              end: {line: 3, column: 38}
+            },
+            {
+              file: indexFile,
+              start: {line: 7, column: 22},
+              end: {line: 7, column: 36}
+            }
+          ]);
+    });
+
+    test('it finds every behaviors array naming a behavior', async function() {
+      assert.sameDeepMembers(
+          await editorService.getReferencesFor(
+              referencesFile, {line: 8, column: 30}),
+          [
+            {
+              file: referencesFile,
+              start: {line: 8, column: 18},
+              end: {line: 8, column: 44}
+            },
+            {
+              file: 'analysis/behaviors/elementdir/element.html',
+              start: {line: 6, column: 16},
+              end: {line: 6, column: 42}
+            }
+          ]);
+    });
+
+    let testName = 'it finds the behaviors entries in a behavior declaration';
+    test(testName, async function() {
+      const behaviorFile = 'analysis/behaviors/behavior.html';
+      assert.deepEqual(
+          await editorService.getReferencesFor(
+              behaviorFile, {line: 5, column: 20}),
+          [{
+            file: behaviorFile,
+            start: {line: 5, column: 16},
+            end: {line: 5, column: 39}
+          }]);
+    });
+
+    testName = 'it finds uses in analyzed files that aren\'t imported';
+    test(testName, async function() {
+      await editorService.getWarningsFor(referencesFile);
+      assert.sameDeepMembers(
+          await editorService.getReferencesFor(indexFile, tagPosition), [
+            {
+              file: referencesFile,
+              start: {line: 3, column: 5},
+              end: {line: 3, column: 23}
+            },
+            {
+              file: indexFile,
+              start: {line: 7, column: 3},
+              end: {line: 7, column: 21}
+            }
+          ]);
+    });
+
+    testName = 'it finds nothing outside of an element or behavior';
+    test(testName, async function() {
+      assert.deepEqual(
+          await editorService.getReferencesFor(
+              referencesFile, {line: 0, column: 3}),
+          []);
+    });
+  });
+
+  suite('getRenameEdits', function() {
+    const elementFile = 'analysis/behaviors/elementdir/element.html';
+    const referencesFile = path.join('editor-service', 'references.html');
+
+    test('it renames an element from one of its tags', async function() {
+      assert.deepEqual(
+          await editorService.getRenameEdits(
+              indexFile, tagPosition, 'new-elem'),
+          {
+            changes: {
+              [indexFile]: [
+                {
+                  range: {
+                    file: indexFile,
+                    start: {line: 7, column: 3},
+                    end: {line: 7, column: 21}
+                  },
+                  newText: 'new-elem'
+                },
+                {
+                  range: {
+                    file: indexFile,
+                    start: {line: 9, column: 4},
+                    end: {line: 9, column: 22}
+                  },
+                  newText: 'new-elem'
+                }
+              ],
+              [elementFile]: [{
+                range: {
+                  file: elementFile,
+                  start: {line: 5, column: 9},
+                  end: {line: 5, column: 27}
+                },
+                newText: 'new-elem'
+              }]
+            }
+          });
+    });
+
+    test('it renames a customElements.define call', async function() {
+      const edits = await editorService.getRenameEdits(
+          indexFile, {line: 10, column: 10}, 'new-elem');
+      assert.deepEqual(edits.changes['vanilla-elements.js'], [{
+                         range: {
+                           file: 'vanilla-elements.js',
+                           start: {line: 33, column: 5},
+                           end: {line: 33, column: 37}
+                         },
+                         newText: 'new-elem'
+                       }]);
+    });
+
+    test('it renames an element from its dom-module', async function() {
+      assert.deepEqual(
+          await editorService.getRenameEdits(
+              referencesFile, {line: 1, column: 20}, 'new-elem'),
+          {
+            changes: {
+              [referencesFile]: [
+                {
+                  range: {
+                    file: referencesFile,
+                    start: {line: 7, column: 11},
+                    end: {line: 7, column: 26}
+                  },
+                  newText: 'new-elem'
+                },
+                {
+                  range: {
+                    file: referencesFile,
+                    start: {line: 1, column: 16},
+                    end: {line: 1, column: 31}
+                  },
+                  newText: 'new-elem'
+                }
+              ]
+            }
+          });
+    });
+
+    test('it renames a property and its attribute', async function() {
+      const expected = {
+        [elementFile]: [{
+          range: {
+            file: elementFile,
+            start: {line: 9, column: 6},
+            end: {line: 9, column: 19}
+          },
+          newText: 'renamedProperty'
+        }],
+        [referencesFile]: [{
+          range: {
+            file: referencesFile,
+            start: {line: 3, column: 24},
+            end: {line: 3, column: 38}
+          },
+          newText: 'renamed-property'
+        }],
+        [indexFile]: [{
+          range: {
+            file: indexFile,
+            start: {line: 7, column: 22},
+            end: {line: 7, column: 36}
+          },
+          newText: 'renamed-property'
+        }]
+      };
+      const fromAttribute = await editorService.getRenameEdits(
+          referencesFile, {line: 3, column: 28}, 'renamed-property');
+      assert.deepEqual(fromAttribute.changes, expected);
+      // The files that use the property import the file that declares it, and
+      // they're known to because they've been analyzed.
+      const fromDeclaration = await editorService.getRenameEdits(
+          elementFile, {line: 9, column: 10}, 'renamedProperty');
+      assert.deepEqual(fromDeclaration.changes, expected);
+    });
+
+    test('it renames a property with a quoted name', async function() {
+      const quotedFile = path.join('editor-service', 'quoted-property.html');
+      const edits = await editorService.getRenameEdits(
+          quotedFile, {line: 5, column: 10}, 'renamedProperty');
+      assert.deepEqual(edits.changes, {
+        [quotedFile]: [
+          {
+            range: {
+              file: quotedFile,
+              start: {line: 5, column: 9},
+              end: {line: 5, column: 15}
+            },
+            newText: 'renamedProperty'
+          },
+          {
+            range: {
+              file: quotedFile,
+              start: {line: 10, column: 13},
+              end: {line: 10, column: 20}
+            },
+            newText: 'renamed-property'
+          }
+        ]
+      });
+    });
+
+    test('it has nothing to rename outside of a declaration', async function() {
+      assert.equal(
+          await editorService.getRenameEdits(
+              elementFile, {line: 22, column: 6}, 'foo'),
+          undefined);
+    });
+  });
+
   suite('getTypeaheadCompletionsFor', function() {
     let testName = 'Get element completions for an empty text region.';
     test(testName, async function() {
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../analyzer';
+import {generateDependencyGraph, serializeDependencyGraphAsDot} from '../generate-dependency-graph';
+import {Document} from '../model/model';
+import {FSUrlLoader} from '../url-loader/fs-url-loader';
+
+suite('generateDependencyGraph', () => {
+  let document: Document;
+
+  suiteSetup(async() => {
+    const analyzer = new Analyzer({
+      urlLoader:
+          new FSUrlLoader(path.resolve(__dirname, 'static/dependency-graph'))
+    });
+    document = await analyzer.analyzeRoot('index.html');
+  });
+
+  test('finds every kind of import', () => {
+    const graph = generateDependencyGraph(document);
+    assert.deepEqual(graph.nodes, [
+      {id: 'index.html', url: 'index.html', type: 'html', inline: false},
+      {id: 'eager.html', url: 'eager.html', type: 'html', inline: false},
+      {id: 'app.js', url: 'app.js', type: 'js', inline: false},
+      {id: 'theme.css', url: 'theme.css', type: 'css', inline: false},
+      {id: 'lazy.html', url: 'lazy.html', type: 'html', inline: false},
+      {id: 'index.html#inline-0', url: 'index.html', type: 'js', inline: true},
+      {id: 'missing.html', url: 'missing.html', type: undefined, inline: false},
+    ]);
+    assert.deepEqual(graph.edges.map(e => [e.from, e.to, e.type, e.lazy]), [
+      ['index.html', 'eager.html', 'html-import', false],
+      ['eager.html', 'app.js', 'html-script', false],
+      ['index.html', 'theme.css', 'html-style', false],
+      ['index.html', 'app.js', 'html-script', false],
+      ['index.html', 'lazy.html', 'lazy-html-import', true],
+      ['index.html', 'index.html#inline-0', 'inline', false],
+      ['index.html', 'missing.html', 'html-import', false],
+    ]);
+  });
+
+  test('collapses inline documents into their containers', () => {
+    const graph =
+        generateDependencyGraph(document, {collapseInlineDocuments: true});
+    assert.notInclude(graph.nodes.map(n => n.id), 'index.html#inline-0');
+    assert.notInclude(graph.edges.map(e => e.type), 'inline');
+  });
+
+  test('serializes graphs as DOT', () => {
+    assert.equal(
+        serializeDependencyGraphAsDot({
+          nodes: [
+            {id: 'a.html', url: 'a.html', type: 'html', inline: false},
+            {id: 'a.html#inline-0', url: 'a.html', type: 'js', inline: true},
+            {id: 'b "quoted".html', url: 'b "quoted".html', inline: false},
+          ],
+          edges: [
+            {
+              from: 'a.html',
+              to: 'a.html#inline-0',
+              type: 'inline',
+              lazy: false
+            },
+            {
+              from: 'a.html',
+              to: 'b "quoted".html',
+              type: 'lazy-html-import',
+              lazy: true
+            },
+          ]
+        }),
+        `digraph dependencies {
+  "a.html" [label="a.html"];
+  "a.html#inline-0" [label="inline js", shape=box];
+  "b \\"quoted\\".html" [label="b \\"quoted\\".html", style=dotted];
+  "a.html" -> "a.html#inline-0" [label="inline"];
+  "a.html" -> "b \\"quoted\\".html" [label="lazy-html-import", style=dashed];
+}
+`);
+  });
+});
@@ -14,12 +14,16 @@
 
 
 import {assert} from 'chai';
+import * as estree from 'estree';
 import * as fs from 'fs';
 import * as path from 'path';
 
+import {Analyzer} from '../../analyzer';
 import {Visitor} from '../../javascript/estree-visitor';
 import {JavaScriptImportScanner} from '../../javascript/javascript-import-scanner';
 import {JavaScriptParser} from '../../javascript/javascript-parser';
+import {NpmUrlResolver} from '../../url-loader/npm-url-resolver';
+import {OverlayUrlLoader} from '../../url-loader/overlay-loader';
 
 suite('JavaScriptImportScanner', () => {
 
@@ -40,7 +44,7 @@ suite('JavaScriptImportScanner', () => {
     assert.equal(features[0].url, '/static/javascript/submodule.js');
   });
 
-  test('skips non-path imports', async() => {
+  test('warns about bare specifiers without a resolver', async() => {
     let file = fs.readFileSync(
         path.resolve(
             __dirname, '../static/javascript/module-with-named-import.js'),
@@ -52,7 +56,102 @@ suite('JavaScriptImportScanner', () => {
         Promise.resolve(document.visit([visitor]));
 
     let features = await scanner.scan(document, visit);
-    assert.equal(features.length, 0);
+    assert.equal(features.length, 1);
+    assert.isUndefined(features[0].url);
+    assert.deepEqual(
+        features[0].warnings.map((w) => [w.code, w.sourceRange]), [[
+          'unresolvable-import', {
+            file: '/static/javascript/module-with-named-import.js',
+            start: {line: 0, column: 21},
+            end: {line: 0, column: 26}
+          }
+        ]]);
+  });
+
+  test('finds re-exports', async() => {
+    let document = parser.parse(
+        `export {a} from './a.js';
+         export * from './b.js';
+         export const c = 'c';`,
+        'module.js');
+
+    let visit = (visitor: Visitor) =>
+        Promise.resolve(document.visit([visitor]));
+
+    let features = await scanner.scan(document, visit);
+    assert.deepEqual(
+        features.map((f) => [f.type, f.url]),
+        [['js-import', 'a.js'], ['js-import', 'b.js']]);
+  });
+
+  test('finds dynamic imports as lazy', async() => {
+    // The bundled espree can't parse import(), so calls of `load` are turned
+    // into the calls of an Import node that newer parsers produce for it.
+    let document = parser.parse(
+        `load('./lazy.js');
+         load(\`./template.js\`);
+         load('./' + name);
+         load('lazy-package');`,
+        'module.js');
+    document.visit([{
+      enterCallExpression(node: estree.CallExpression) {
+        node.callee = {type: 'Import'} as any;
+      }
+    }]);
+
+    let visit = (visitor: Visitor) =>
+        Promise.resolve(document.visit([visitor]));
+
+    let features = await scanner.scan(document, visit);
+    assert.deepEqual(features.map((f) => [f.type, f.url]), [
+      ['lazy-js-import', 'lazy.js'], ['lazy-js-import', 'template.js'],
+      ['lazy-js-import', undefined], ['lazy-js-import', undefined]
+    ]);
+    assert.deepEqual(
+        features[2].warnings.map((w) => [w.code, w.sourceRange.start]), [[
+          'unresolvable-import', {line: 2, column: 14}
+        ]]);
+    assert.deepEqual(
+        features[3].warnings.map((w) => w.sourceRange.start),
+        [{line: 3, column: 14}]);
+  });
+
+  test('resolves bare specifiers with a resolver that can', async() => {
+    let packageDir = path.resolve(__dirname, '../static/npm-url-resolver');
+    let file = fs.readFileSync(path.join(packageDir, 'src/app.js'), 'utf8');
+    let document = parser.parse(file, 'src/app.js');
+
+    let visit = (visitor: Visitor) =>
+        Promise.resolve(document.visit([visitor]));
+
+    let npmScanner =
+        new JavaScriptImportScanner(new NpmUrlResolver({packageDir}));
+    let features = await npmScanner.scan(document, visit);
+    assert.deepEqual(features.map((f) => f.url), [
+      'node_modules/dep/dep.module.js', 'node_modules/@scope/scoped/scoped.js',
+      'node_modules/dep/helper.js', 'src/local.js', undefined
+    ]);
+    assert.deepEqual(
+        features[4].warnings.map((w) => w.message),
+        ['Unable to resolve the import of `missing`. Is it installed?']);
+  });
+
+  test('adds warnings for unresolvable imports to the analysis', async() => {
+    let loader = new OverlayUrlLoader();
+    loader.set('root.js', `import './a.js'; import 'a-package';`);
+    loader.set('a.js', ``);
+    let analyzer = new Analyzer({
+      urlLoader: loader,
+      parsers: new Map([['js', parser]]),
+      scanners: new Map([['js', [scanner]]])
+    });
+
+    let document = await analyzer.analyzeRoot('root.js');
+    assert.deepEqual(
+        Array.from(document.getByKind('document')).map((d) => d.url),
+        ['root.js', 'a.js']);
+    assert.deepEqual(
+        document.getWarnings().map((w) => w.code), ['unresolvable-import']);
   });
 
 });
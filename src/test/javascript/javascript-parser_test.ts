@@ -53,6 +53,18 @@ suite('JavaScriptParser', () => {
       assert.throws(() => parser.parse(file, '/static/js-parse-error.js'));
     });
 
+    test('parses scripts with imports and exports as modules', () => {
+      let document = parser.parse(
+          `import {a} from './a.js';
+           export const b = a;`,
+          '/static/module.js');
+      assert.deepEqual(
+          document.ast.body.map((statement) => statement.type),
+          ['ImportDeclaration', 'ExportNamedDeclaration']);
+      assert.throws(
+          () => parser.parse(`import {a} from './a.js'; var`, '/bad.js'));
+    });
+
     test('attaches comments', () => {
       let file = fs.readFileSync(
           path.resolve(__dirname, '../static/js-elements.js'), 'utf8');
@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {PassThrough} from 'stream';
+
+import {JsonRpcConnection, Message} from '../../language-server/json-rpc';
+import {DiagnosticSeverity, LanguageServer} from '../../language-server/language-server';
+
+/**
+ * Talks to a LanguageServer over in-memory streams, the way an editor would.
+ */
+class TestClient {
+  private _toServer = new PassThrough();
+  private _fromServer = new PassThrough();
+  private _received: Message[] = [];
+  private _waiters: (() => void)[] = [];
+  private _buffer = '';
+  private _nextId = 0;
+
+  constructor() {
+    new LanguageServer(new JsonRpcConnection(this._toServer, this._fromServer));
+    this._fromServer.on('data', (chunk: Buffer) => {
+      this._buffer += chunk.toString('utf8');
+      let match: RegExpExecArray|null;
+      while (match = /^Content-Length: (\d+)\r\n\r\n/.exec(this._buffer)) {
+        const end = match[0].length + parseInt(match[1], 10);
+        this._received.push(
+            JSON.parse(this._buffer.substring(match[0].length, end)));
+        this._buffer = this._buffer.substring(end);
+      }
+      const waiters = this._waiters;
+      this._waiters = [];
+      waiters.forEach((w) => w());
+    });
+  }
+
+  send(message: any) {
+    const json = JSON.stringify(Object.assign({jsonrpc: '2.0'}, message));
+    this._toServer.write(`Content-Length: ${json.length}\r\n\r\n${json}`);
+  }
+
+  async request(method: string, params: any): Promise<Message> {
+    const id = this._nextId++;
+    this.send({id, method, params});
+    return this.waitFor((m) => m.id === id);
+  }
+
+  notify(method: string, params: any) {
+    this.send({method, params});
+  }
+
+  hasReceived(predicate: (message: Message) => boolean): boolean {
+    return this._received.some(predicate);
+  }
+
+  async waitFor(predicate: (message: Message) => boolean): Promise<Message> {
+    while (true) {
+      const index = this._received.findIndex(predicate);
+      if (index !== -1) {
+        return this._received.splice(index, 1)[0];
+      }
+      await new Promise<void>((resolve) => this._waiters.push(resolve));
+    }
+  }
+}
+
+suite('LanguageServer', function() {
+  const basedir = path.join(__dirname, '..', 'static');
+  const rootUri = `file://${basedir}`;
+  const indexUri = `${rootUri}/editor-service/index.html`;
+  const indexContents =
+      fs.readFileSync(path.join(basedir, 'editor-service/index.html'), 'utf-8');
+  const tagPosition = {line: 7, character: 9};
+
+  let client: TestClient;
+  setup(async function() {
+    client = new TestClient();
+    const response = await client.request('initialize', {rootUri});
+    assert.equal(response.result.capabilities.hoverProvider, true);
+    client.notify(
+        'textDocument/didOpen',
+        {textDocument: {uri: indexUri, text: indexContents}});
+    await client.waitFor(m => m.method === 'textDocument/publishDiagnostics');
+  });
+
+  test('responds to hover requests with documentation', async function() {
+    const response = await client.request(
+        'textDocument/hover',
+        {textDocument: {uri: indexUri}, position: tagPosition});
+    assert.deepEqual(
+        response.result,
+        {contents: 'An element to test out behavior inheritance.'});
+  });
+
+  test('responds to definition requests with a location', async function() {
+    const response = await client.request(
+        'textDocument/definition',
+        {textDocument: {uri: indexUri}, position: tagPosition});
+    assert.deepEqual(response.result, {
+      uri: `${rootUri}/analysis/behaviors/elementdir/element.html`,
+      range: {start: {line: 4, character: 10}, end: {line: 24, character: 3}}
+    });
+  });
+
+  test('responds to completion requests', async function() {
+    const response = await client.request(
+        'textDocument/completion',
+        {textDocument: {uri: indexUri}, position: tagPosition});
+    assert.include(
+        response.result.items.map((i: any) => i.label), 'behavior-test-elem');
+  });
+
+  test('publishes diagnostics for unsaved changes', async function() {
+    const badImport = `<link rel="import" href="./does-not-exist.html">`;
+    client.notify('textDocument/didChange', {
+      textDocument: {uri: indexUri},
+      contentChanges: [{text: `${badImport}\n${indexContents}`}]
+    });
+    const notification = await client.waitFor(
+        m => m.method === 'textDocument/publishDiagnostics');
+    assert.equal(notification.params.uri, indexUri);
+    assert.containSubset(notification.params.diagnostics, [{
+                           code: 'could-not-load',
+                           severity: DiagnosticSeverity.Error,
+                           range: {
+                             start: {line: 0, character: 0},
+                             end: {line: 0, character: badImport.length}
+                           }
+                         }]);
+  });
+
+  test('only publishes diagnostics for the latest changes', async function() {
+    const badImport = `<link rel="import" href="./does-not-exist.html">`;
+    client.notify('textDocument/didChange', {
+      textDocument: {uri: indexUri},
+      contentChanges: [{text: `${badImport}\n${indexContents}`}]
+    });
+    client.notify('textDocument/didChange', {
+      textDocument: {uri: indexUri},
+      contentChanges: [{text: indexContents}]
+    });
+    const notification = await client.waitFor(
+        m => m.method === 'textDocument/publishDiagnostics');
+    assert.deepEqual(notification.params.diagnostics, []);
+
+    // By the time that this is answered, the first change has been analyzed.
+    await client.request(
+        'textDocument/hover',
+        {textDocument: {uri: indexUri}, position: tagPosition});
+    assert.isFalse(
+        client.hasReceived(m => m.method === 'textDocument/publishDiagnostics'));
+  });
+
+  test('logs errors from bad notifications and keeps going', async function() {
+    client.notify('textDocument/didChange', {textDocument: {uri: indexUri}});
+    const notification =
+        await client.waitFor(m => m.method === 'window/logMessage');
+    assert.match(notification.params.message, /Unable to handle/);
+
+    const response = await client.request(
+        'textDocument/hover',
+        {textDocument: {uri: indexUri}, position: tagPosition});
+    assert.isDefined(response.result);
+  });
+
+  test('responds with an error to unknown requests', async function() {
+    const response = await client.request('workspace/symbol', {query: ''});
+    assert.equal(response.error.code, -32601);
+  });
+});
+
+suite('LanguageServer before initialization', function() {
+  const rootUri = `file://${path.join(__dirname, '..', 'static')}`;
+  const indexUri = `${rootUri}/editor-service/index.html`;
+
+  test('responds to requests with an error', async function() {
+    const client = new TestClient();
+    const response = await client.request(
+        'textDocument/hover',
+        {textDocument: {uri: indexUri}, position: {line: 0, character: 0}});
+    assert.equal(response.error.code, -32002);
+  });
+
+  test('ignores notifications', async function() {
+    const client = new TestClient();
+    client.notify(
+        'textDocument/didOpen', {textDocument: {uri: indexUri, text: ''}});
+    const response = await client.request('initialize', {rootUri});
+    assert.equal(response.result.capabilities.hoverProvider, true);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../../analyzer';
+import {Linter} from '../../linter/linter';
+import {Rule} from '../../linter/rule';
+import {RuleRegistry} from '../../linter/rule-registry';
+import {Document, Severity} from '../../model/model';
+import {FSUrlLoader} from '../../url-loader/fs-url-loader';
+
+/**
+ * Reports every element in the graph.
+ */
+const elementsRule: Rule = {
+  code: 'found-element',
+  description: 'Reports elements.',
+  check(document: Document) {
+    return Array.from(document.getByKind('element'))
+        .map((element) => ({
+               message: `Found <${element.tagName}>`,
+               sourceRange: element.sourceRange,
+               severity: Severity.INFO,
+               code: 'found-element'
+             }));
+  }
+};
+
+const documentRule: Rule = {
+  code: 'found-document',
+  description: 'Reports the root document.',
+  check(document: Document) {
+    return [{
+      message: `Found ${document.url}`,
+      sourceRange: {
+        file: document.url,
+        start: {line: 0, column: 0},
+        end: {line: 0, column: 0}
+      },
+      severity: Severity.WARNING,
+      code: 'found-document'
+    }];
+  }
+};
+
+suite('Linter', () => {
+  let document: Document;
+  let registry: RuleRegistry;
+
+  suiteSetup(async() => {
+    const analyzer = new Analyzer({
+      urlLoader: new FSUrlLoader(path.resolve(__dirname, '../static/analysis'))
+    });
+    document = await analyzer.analyzeRoot('simple/simple-element.html');
+  });
+
+  setup(() => {
+    registry = new RuleRegistry([elementsRule, documentRule]);
+  });
+
+  test('runs every registered rule by default', () => {
+    const linter = new Linter({registry});
+    assert.deepEqual(
+        linter.getEnabledRules().map(r => r.code),
+        ['found-element', 'found-document']);
+    assert.deepEqual(linter.lint(document).map(w => [w.code, w.message]), [
+      ['found-element', 'Found <simple-element>'],
+      ['found-document', 'Found simple/simple-element.html'],
+    ]);
+  });
+
+  test('skips disabled rules', () => {
+    const linter =
+        new Linter({registry, rules: {'found-element': {enabled: false}}});
+    assert.deepEqual(
+        linter.lint(document).map(w => w.code), ['found-document']);
+  });
+
+  test('overrides the severities of rules', () => {
+    const linter = new Linter(
+        {registry, rules: {'found-document': {severity: Severity.ERROR}}});
+    assert.deepEqual(
+        linter.lint(document).map(w => [w.code, w.severity]),
+        [['found-element', Severity.INFO], ['found-document', Severity.ERROR]]);
+  });
+
+  test('rejects configuration for unknown rules', () => {
+    assert.throws(
+        () => new Linter({registry, rules: {'no-such-rule': {}}}),
+        'Unknown lint rule: `no-such-rule`.');
+  });
+
+  test('rejects rules with duplicate codes', () => {
+    assert.throws(
+        () => registry.register(elementsRule),
+        'A rule with code `found-element` is already registered.');
+  });
+});
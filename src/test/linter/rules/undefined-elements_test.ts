@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../../../analyzer';
+import {Linter} from '../../../linter/linter';
+import {UndefinedElements} from '../../../linter/rules/undefined-elements';
+import {FSUrlLoader} from '../../../url-loader/fs-url-loader';
+
+suite('UndefinedElements', () => {
+  let analyzer: Analyzer;
+
+  setup(() => {
+    analyzer = new Analyzer({
+      urlLoader: new FSUrlLoader(
+          path.resolve(__dirname, '../../static/linter/undefined-elements'))
+    });
+  });
+
+  test('warns about elements that are not imported', async() => {
+    const document = await analyzer.analyzeRoot('index.html');
+    const warnings = new UndefinedElements().check(document);
+    assert.deepEqual(
+        warnings.map(
+            w =>
+                [w.sourceRange.file, w.sourceRange.start.line,
+                 w.sourceRange.start.column, w.message]),
+        [
+          [
+            'index.html', 4, 1,
+            'The element <undefined-elem> is not defined by index.html ' +
+                'or anything that it imports.'
+          ],
+          [
+            'index.html', 11, 7,
+            'The element <nested-undefined-elem> is not defined by ' +
+                'index.html or anything that it imports.'
+          ],
+          [
+            'uses-elements.html', 1, 1,
+            'The element <defined-elem> is not defined by ' +
+                'uses-elements.html or anything that it imports.'
+          ],
+        ]);
+    assert.deepEqual(
+        warnings.map(w => w.code), Array(3).fill('undefined-elements'));
+  });
+
+  test('is a built-in rule', () => {
+    assert.include(
+        new Linter().getEnabledRules().map(r => r.code), 'undefined-elements');
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../../../analyzer';
+import {UnknownAttributes} from '../../../linter/rules/unknown-attributes';
+import {FSUrlLoader} from '../../../url-loader/fs-url-loader';
+
+suite('UnknownAttributes', () => {
+  let analyzer: Analyzer;
+
+  setup(() => {
+    analyzer = new Analyzer({
+      urlLoader: new FSUrlLoader(
+          path.resolve(__dirname, '../../static/linter/unknown-attributes'))
+    });
+  });
+
+  test('warns about unknown attributes and events', async() => {
+    const document = await analyzer.analyzeRoot('index.html');
+    const warnings = new UnknownAttributes().check(document);
+    assert.deepEqual(
+        warnings.map(
+            w =>
+                [w.sourceRange.start.line, w.sourceRange.start.column,
+                 w.message]),
+        [
+          [
+            17, 14,
+            '<fancy-button> has no attribute or property named `raisd`. ' +
+                'Did you mean `raised`?'
+          ],
+          [
+            17, 20,
+            '<fancy-button> has no attribute or property named ' +
+                '`labeltext`. Did you mean `label-text`?'
+          ],
+          [
+            17, 35,
+            '<fancy-button> has no attribute or property named `press`. ' +
+                'Did you mean `pressed`?'
+          ],
+          [
+            18, 4,
+            '<fancy-button> never fires `activte` events. ' +
+                'Did you mean `activate`?'
+          ],
+          [18, 20, '<fancy-button> never fires `frobnicate` events.'],
+        ]);
+    assert.deepEqual(
+        warnings.map(w => w.code), Array(5).fill('unknown-attributes'));
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+
+import {Analyzer} from '../../analyzer';
+import {OverlayUrlLoader} from '../../url-loader/overlay-loader';
+
+suite('addImportGraphWarnings', () => {
+  let loader: OverlayUrlLoader;
+  let analyzer: Analyzer;
+
+  setup(() => {
+    loader = new OverlayUrlLoader();
+    analyzer = new Analyzer({urlLoader: loader});
+  });
+
+  const getWarnings = async(url: string) => {
+    const document = await analyzer.analyzeRoot(url);
+    return document.getWarnings({deep: true})
+        .map(w => [w.code, w.sourceRange.file, w.message]);
+  };
+
+  test('warns about import cycles', async() => {
+    loader.set('root.html', `<link rel="import" href="a.html">`);
+    loader.set('a.html', `<link rel="import" href="b.html">`);
+    loader.set('b.html', `<link rel="import" href="a.html">
+                   <link rel="import" href="leaf.html">`);
+    loader.set('leaf.html', `<script src="root.js"></script>`);
+    loader.set('root.js', ``);
+    assert.deepEqual(await getWarnings('root.html'), [
+      ['import-cycle', 'b.html', 'Import cycle: a.html -> b.html -> a.html'],
+    ]);
+  });
+
+  test('warns about files imported under two URLs', async() => {
+    loader.set(
+        'root.html', `<link rel="import" href="bower_components/dep/dep.html">
+                      <link rel="import" href="other.html">`);
+    loader.set('other.html', `<link rel="import" href="../dep/dep.html">`);
+    loader.set('bower_components/dep/dep.html', ``);
+    loader.set('../dep/dep.html', ``);
+    assert.deepEqual(await getWarnings('root.html'), [
+      [
+        'duplicate-import', 'other.html',
+        '../dep/dep.html is also imported as bower_components/dep/dep.html. ' +
+            'A file that\'s imported under two URLs is loaded and run twice.'
+      ],
+      [
+        'import-outside-package', 'other.html',
+        '../dep/dep.html is outside of the package, so it may not be there ' +
+            'when the package is installed.'
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as estree from 'estree';
+
+import {JavaScriptParser} from '../../javascript/javascript-parser';
+import {analyzeProperties} from '../../polymer/analyze-properties';
+import {ScannedPolymerProperty} from '../../polymer/element-descriptor';
+
+suite('analyzeProperties', () => {
+  const analyze = (properties: string) => {
+    const parser = new JavaScriptParser({sourceType: 'script'});
+    const document = parser.parse(`(${properties});`, 'test.js');
+    const statement = document.ast.body[0] as estree.ExpressionStatement;
+    return analyzeProperties(
+        statement.expression, document) as ScannedPolymerProperty[];
+  };
+
+  test('analyzes properties declared with an object', () => {
+    const properties = analyze(`{
+      name: {type: String, notify: true, readOnly: true, value: 'x'}
+    }`);
+    assert.deepEqual(
+        properties.map(p => [p.name, p.type, p.notify, p.readOnly]),
+        [['name', 'string', true, true]]);
+  });
+
+  test('analyzes properties declared with only a type', () => {
+    const properties = analyze(`{count: Number, flags: Object}`);
+    assert.deepEqual(
+        properties.map(p => [p.name, p.type, p.published]),
+        [['count', 'number', true], ['flags', 'Object', true]]);
+  });
+
+  test('analyzes nothing when not given an object', () => {
+    assert.deepEqual(analyze(`[]`), []);
+  });
+});
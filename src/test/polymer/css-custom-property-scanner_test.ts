@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+
+import {HtmlVisitor} from '../../html/html-document';
+import {HtmlParser} from '../../html/html-parser';
+import {CssCustomPropertyScanner, ScannedCssCustomProperty} from '../../polymer/css-custom-property-scanner';
+
+suite('CssCustomPropertyScanner', () => {
+
+  suite('scan()', () => {
+    let scanner: CssCustomPropertyScanner;
+
+    setup(() => {
+      scanner = new CssCustomPropertyScanner();
+    });
+
+    const scan =
+        async(contents: string): Promise<ScannedCssCustomProperty[]> => {
+      const document = new HtmlParser().parse(contents, 'test.html');
+      const visit = async(visitor: HtmlVisitor) => document.visit([visitor]);
+      return scanner.scan(document, visit);
+    };
+
+    test('finds custom properties in dom-module styles', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <template>
+    <style>
+      /**
+       * @cssVariable {color} --my-elem-color The color of the text.
+       */
+      :host {
+        color: var(--my-elem-color, var(--primary-color, black));
+        @apply --my-elem-mixin;
+        --paper-input-container: {
+          padding: 0;
+        };
+      }
+    </style>
+  </template>
+</dom-module>
+<style>
+  .outside { color: var(--outside-dom-module); }
+</style>`);
+      assert.deepEqual(features.map(f => [f.name, f.usage, f.domModuleId]), [
+        ['--my-elem-color', 'doc-comment', 'my-elem'],
+        ['--my-elem-color', 'var', 'my-elem'],
+        ['--primary-color', 'var', 'my-elem'],
+        ['--my-elem-mixin', 'apply', 'my-elem'],
+        ['--paper-input-container', 'mixin-definition', 'my-elem'],
+      ]);
+
+      const [doc, usage, nestedUsage, apply, mixin] = features;
+      assert.equal(doc.type, 'color');
+      assert.equal(doc.description, 'The color of the text.');
+      assert.equal(usage.fallback, 'var(--primary-color, black)');
+      assert.equal(nestedUsage.fallback, 'black');
+      assert.equal(apply.type, 'mixin');
+      assert.equal(mixin.type, 'mixin');
+      assert.deepEqual(usage.sourceRange, {
+        file: 'test.html',
+        start: {line: 7, column: 19},
+        end: {line: 7, column: 34}
+      });
+      assert.deepEqual(apply.sourceRange, {
+        file: 'test.html',
+        start: {line: 8, column: 15},
+        end: {line: 8, column: 30}
+      });
+    });
+
+    test('finds custom properties in styles outside of templates', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <style>:host { @apply(--my-elem-mixin); }</style>
+</dom-module>`);
+      assert.deepEqual(
+          features.map(f => [f.name, f.usage]), [['--my-elem-mixin', 'apply']]);
+    });
+  });
+});
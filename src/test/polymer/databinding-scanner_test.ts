@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+
+import {HtmlVisitor} from '../../html/html-document';
+import {HtmlParser} from '../../html/html-parser';
+import {DatabindingScanner, ScannedDatabinding} from '../../polymer/databinding-scanner';
+
+suite('DatabindingScanner', () => {
+
+  suite('scan()', () => {
+    let scanner: DatabindingScanner;
+
+    setup(() => {
+      scanner = new DatabindingScanner();
+    });
+
+    const scan = async(contents: string): Promise<ScannedDatabinding[]> => {
+      const document = new HtmlParser().parse(contents, 'test.html');
+      const visit = async(visitor: HtmlVisitor) => document.visit([visitor]);
+      return scanner.scan(document, visit);
+    };
+
+    test('finds bindings in text and attributes', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <template>
+    <div class$="[[className]]">{{user.name}} and [[!hidden]]</div>
+    <input value="{{value::input}}">
+  </template>
+</dom-module>
+<div>[[outsideOfDomModule]]</div>`);
+      assert.deepEqual(
+          features.map(f => f.expressionText),
+          ['className', 'user.name', '!hidden', 'value::input']);
+      assert.deepEqual(
+          features.map(f => f.domModuleId),
+          ['my-elem', 'my-elem', 'my-elem', 'my-elem']);
+
+      const [attribute, text, negated, twoWay] = features;
+      assert.equal(attribute.attribute, 'class');
+      assert.isTrue(attribute.isAttributeBinding);
+      assert.equal(attribute.direction, 'one-way');
+      assert.deepEqual(attribute.sourceRange, {
+        file: 'test.html',
+        start: {line: 2, column: 17},
+        end: {line: 2, column: 30}
+      });
+
+      assert.equal(text.attribute, undefined);
+      assert.equal(text.direction, 'two-way');
+      assert.deepEqual(text.paths, [{
+                         path: 'user.name',
+                         sourceRange: {
+                           file: 'test.html',
+                           start: {line: 2, column: 34},
+                           end: {line: 2, column: 43}
+                         }
+                       }]);
+
+      assert.isTrue(negated.negated);
+      assert.deepEqual(negated.paths.map(p => p.path), ['hidden']);
+
+      assert.equal(twoWay.attribute, 'value');
+      assert.isFalse(twoWay.isAttributeBinding);
+      assert.equal(twoWay.eventName, 'input');
+      assert.deepEqual(twoWay.paths.map(p => p.path), ['value']);
+    });
+
+    test('finds the method and arguments of computed bindings', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <template>
+    <span title="[[compute(first, 'a, b', 10, items.*)]]"></span>
+  </template>
+</dom-module>`);
+      assert.equal(features.length, 1);
+      assert.deepEqual(features[0].method, {
+        name: 'compute',
+        sourceRange: {
+          file: 'test.html',
+          start: {line: 2, column: 19},
+          end: {line: 2, column: 26}
+        }
+      });
+      assert.deepEqual(
+          features[0].paths.map(p => p.path), ['first', 'items.*']);
+    });
+
+    test('finds bindings in nested templates', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <template>
+    <template is="dom-repeat" items="[[items]]">
+      <span>[[item.label]]</span>
+    </template>
+  </template>
+</dom-module>`);
+      assert.deepEqual(
+          features.map(f => f.expressionText), ['items', 'item.label']);
+      assert.deepEqual(
+          features.map(f => f.templateScope), [[], ['item', 'index']]);
+    });
+
+    test('ignores styles and invalid expressions', async() => {
+      const features = await scan(`<dom-module id="my-elem">
+  <template>
+    <style>.a { color: red; } /* {{notABinding}} */</style>
+    <p>[[not valid!]] [[fn(]] [[]]</p>
+  </template>
+</dom-module>`);
+      assert.deepEqual(features, []);
+    });
+  });
+
+});
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+
+import {Visitor} from '../../javascript/estree-visitor';
+import {JavaScriptParser} from '../../javascript/javascript-parser';
+import {ScannedPolymerElement} from '../../polymer/element-descriptor';
+import {ScannedMixin} from '../../polymer/mixin-descriptor';
+import {PolymerElementScanner} from '../../polymer/polymer-element-scanner';
+
+suite('PolymerElementScanner', () => {
+
+  suite('scan()', () => {
+    let scanner: PolymerElementScanner;
+
+    setup(() => {
+      scanner = new PolymerElementScanner();
+    });
+
+    const scan = async(contents: string): Promise<ScannedPolymerElement[]> => {
+      const parser = new JavaScriptParser({sourceType: 'script'});
+      const document = parser.parse(contents, 'test.js');
+      const visit = async(visitor: Visitor) => document.visit([visitor]);
+      return scanner.scan(document, visit);
+    };
+
+    test('finds Polymer 2 class-based elements', async() => {
+      const features = await scan(`
+        /**
+         * A Polymer 2 element.
+         */
+        class MyElement extends Polymer.Element {
+          static get is() { return 'my-element'; }
+          static get properties() {
+            return {
+              /** The name to greet. */
+              name: {type: String, notify: true},
+              count: Number,
+              _private: {type: Boolean, readOnly: true}
+            };
+          }
+          static get observers() {
+            return ['_nameChanged(name)'];
+          }
+          static get template() {
+            return '<div>[[name]]</div>';
+          }
+          constructor() {
+            super();
+            class Nested {}
+          }
+          greet() {}
+        }
+        customElements.define(MyElement.is, MyElement);
+      `);
+      assert.equal(features.length, 1);
+      const element = features[0];
+      assert.equal(element.tagName, 'my-element');
+      assert.equal(element.className, 'MyElement');
+      assert.equal(element.superClass, 'Polymer.Element');
+      assert.equal(element.description, 'A Polymer 2 element.');
+      assert.deepEqual(element.tagNameSourceRange, {
+        file: 'test.js',
+        start: {line: 5, column: 35},
+        end: {line: 5, column: 47}
+      });
+      assert.deepEqual(element.properties.map(p => [p.name, p.type]), [
+        ['name', 'string'], ['count', 'number'], ['_private', 'boolean'],
+        ['constructor', 'Function'], ['greet', 'Function']
+      ]);
+      assert.equal(element.properties[0].description, 'The name to greet.');
+      assert.deepEqual(element.attributes.map(a => a.name), ['name', 'count']);
+      assert.deepEqual(element.events.map(e => e.name), ['name-changed']);
+      assert.deepEqual(
+          element.observers.map(o => o.expression), ['_nameChanged(name)']);
+    });
+
+    test('links classes to the tag names they are defined with', async() => {
+      const features = await scan(`
+        class FirstElement extends Polymer.GestureEventListeners(
+            Polymer.Element) {}
+        customElements.define('first-element', FirstElement);
+        customElements.define('second-element', class extends Polymer.Element {
+          static get properties() { return {value: String}; }
+        });
+        class NotAnElement extends HTMLElement {}
+      `);
+      assert.deepEqual(
+          features.map(f => [f.tagName, f.className]),
+          [['first-element', 'FirstElement'], ['second-element', undefined]]);
+      assert.deepEqual(features[1].properties.map(p => p.name), ['value']);
+    });
+
+    test('finds class mixins', async() => {
+      const features = await scan(`
+        /** A mixin that's found by its shape. */
+        const ShapedMixin = (base) => class extends Polymer.Foo(base) {
+          static get properties() { return {shaped: String}; }
+        };
+        /**
+         * @mixinFunction
+         * @appliesMixin ShapedMixin
+         */
+        function AnnotatedMixin(superClass) {
+          return class extends ShapedMixin(Other) {
+            get annotated() {}
+          };
+        }
+        const NotAMixin = (base) => class extends Polymer.Element {};
+        const NotAClass = (base) => base;
+      `);
+      assert.deepEqual(
+          features.map(f => [f.constructor, f.className, f.tagName]), [
+            [ScannedMixin, 'ShapedMixin', undefined],
+            [ScannedMixin, 'AnnotatedMixin', undefined],
+            [ScannedPolymerElement, undefined, undefined],
+          ]);
+      const [shaped, annotated] = features;
+      assert.equal(shaped.description, 'A mixin that\'s found by its shape.');
+      assert.equal(shaped.superClass, undefined);
+      assert.deepEqual(shaped.mixins, ['Polymer.Foo']);
+      assert.deepEqual(shaped.properties.map(p => p.name), ['shaped']);
+      assert.deepEqual(annotated.mixins, ['ShapedMixin']);
+      assert.deepEqual(annotated.properties.map(p => p.name), ['annotated']);
+    });
+
+    test('still finds Polymer() calls after classes', async() => {
+      const features = await scan(`
+        class NotAnElement {}
+        Polymer({is: 'legacy-element', properties: {value: String}});
+      `);
+      assert.deepEqual(features.map(f => f.tagName), ['legacy-element']);
+    });
+
+    test('finds the properties that methods assign to', async() => {
+      const features = await scan(`
+        class ClassElement extends Polymer.Element {
+          static get is() { return 'class-element'; }
+          ready() {
+            this.fromClass = true;
+            this.fromClass = false;
+            other.notThis = true;
+          }
+        }
+        Polymer({
+          is: 'legacy-element',
+          attached: function() { this.fromLegacy = true; }
+        });
+      `);
+      assert.deepEqual(features.map(f => [f.tagName, f.assignedProperties]), [
+        ['class-element', ['fromClass']], ['legacy-element', ['fromLegacy']]
+      ]);
+    });
+  });
+});
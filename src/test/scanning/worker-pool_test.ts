@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../../analyzer';
+import {Document, WarningCarryingException} from '../../model/model';
+import {SerializedDocument} from '../../scanning/serialization';
+import {WorkerPool} from '../../scanning/worker-pool';
+import {FSUrlLoader} from '../../url-loader/fs-url-loader';
+import {invertPromise} from '../test-utils';
+
+class CountingWorkerPool extends WorkerPool {
+  scannedUrls: string[] = [];
+
+  scan(url: string, contents: string): Promise<SerializedDocument|undefined> {
+    this.scannedUrls.push(url);
+    return super.scan(url, contents);
+  }
+}
+
+function summarize(document: Document) {
+  return Array.from(document.getFeatures())
+      .map(
+          (feature) =>
+              [Array.from(feature.kinds).sort().join(','),
+               Array.from(feature.identifiers).sort().join(','),
+               feature.sourceRange])
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+}
+
+suite('WorkerPool', () => {
+  const staticDir = path.resolve(__dirname, '../static');
+  let pool: CountingWorkerPool;
+  let analyzer: Analyzer;
+
+  suiteSetup(() => {
+    pool = new CountingWorkerPool(2);
+  });
+
+  suiteTeardown(() => {
+    pool.dispose();
+  });
+
+  setup(() => {
+    pool.scannedUrls = [];
+    analyzer =
+        new Analyzer({urlLoader: new FSUrlLoader(staticDir), workerPool: pool});
+  });
+
+  test('finds the same features as scanning in process', async() => {
+    const url = 'dependency-graph/index.html';
+    const inProcess = await new Analyzer({
+                        urlLoader: new FSUrlLoader(staticDir)
+                      }).analyzeRoot(url);
+    const document = await analyzer.analyzeRoot(url);
+    assert.deepEqual(summarize(document), summarize(inProcess));
+    assert.deepEqual(
+        document.getWarnings({deep: true}),
+        inProcess.getWarnings({deep: true}));
+    assert.equal(analyzer['_parsedDocuments'].size, 0);
+  });
+
+  test('scans each document once', async() => {
+    await analyzer.analyzeRoots(
+        ['dependency-graph/index.html', 'dependency-graph/eager.html']);
+    assert.deepEqual(pool.scannedUrls.slice().sort(), [
+      'dependency-graph/app.js', 'dependency-graph/eager.html',
+      'dependency-graph/index.html', 'dependency-graph/lazy.html',
+      'dependency-graph/theme.css'
+    ]);
+  });
+
+  test('keeps the warnings of malformed documents', async() => {
+    const document = await analyzer.analyzeRoot('malformed.html');
+    assert(document.getWarnings().length >= 1);
+  });
+
+  test('rejects with the warnings that parsers throw', async() => {
+    const error =
+        await invertPromise(analyzer.analyzeRoot('js-parse-error.js'));
+    assert.instanceOf(error, WarningCarryingException);
+    assert.equal(error.warning.code, 'parse-error');
+  });
+
+  test('can\'t be used with custom parsers or scanners', () => {
+    assert.throws(() => new Analyzer({
+                    urlLoader: new FSUrlLoader(staticDir),
+                    parsers: new Map(),
+                    workerPool: pool
+                  }));
+  });
+});
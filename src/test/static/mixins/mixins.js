@@ -0,0 +1,31 @@
+/**
+ * Adds a greeting to the classes it's applied to.
+ *
+ * @polymerMixin
+ */
+const GreetingMixin = (base) => class extends base {
+  static get properties() {
+    return {greeting: {type: String, notify: true}};
+  }
+};
+
+/**
+ * @polymerMixin
+ * @appliesMixin GreetingMixin
+ */
+Polymer.NamedMixin = Polymer.dedupingMixin((superClass) => {
+  class NamedMixin extends GreetingMixin(superClass) {
+    static get properties() {
+      return {name: String};
+    }
+  }
+  return NamedMixin;
+});
+
+class GreetingElement extends Polymer.NamedMixin(
+    UndefinedMixin(Polymer.Element)) {
+  static get is() { return 'greeting-element'; }
+  static get properties() {
+    return {punctuation: String};
+  }
+}
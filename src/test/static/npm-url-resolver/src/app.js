@@ -0,0 +1,5 @@
+import {dep} from 'dep';
+import {scoped} from '@scope/scoped';
+import {helper} from 'dep/helper.js';
+import {local} from './local.js';
+import {missing} from 'missing';
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {NpmUrlResolver} from '../../url-loader/npm-url-resolver';
+
+suite('NpmUrlResolver', () => {
+  const resolver = new NpmUrlResolver(
+      {packageDir: path.resolve(__dirname, '../static/npm-url-resolver')});
+
+  suite('resolve', () => {
+
+    test('resolves an in-package URL', () => {
+      assert.equal(resolver.resolve('/src/app.js'), 'src/app.js');
+      assert.equal(resolver.resolve('./src/app.js'), 'src/app.js');
+    });
+
+    test('resolves sibling URLs into node_modules', () => {
+      assert.equal(
+          resolver.resolve('../dep/dep.js'), 'node_modules/dep/dep.js');
+      assert.equal(
+          resolver.resolve('../@scope/scoped/scoped.js'),
+          'node_modules/@scope/scoped/scoped.js');
+    });
+
+    test('throws for a cousin URL', () => {
+      assert.throws(() => resolver.resolve('../../foo/foo.js'));
+    });
+
+  });
+
+  suite('resolveImport', () => {
+
+    test('resolves paths against the importer', () => {
+      assert.equal(
+          resolver.resolveImport('./local.js', 'src/app.js'), 'src/local.js');
+      assert.equal(
+          resolver.resolveImport('/src/local.js', 'src/app.js'),
+          'src/local.js');
+    });
+
+    test('prefers the module field of package.json to main', () => {
+      assert.equal(
+          resolver.resolveImport('dep', 'src/app.js'),
+          'node_modules/dep/dep.module.js');
+    });
+
+    test('falls back to main and to index.js', () => {
+      assert.equal(
+          resolver.resolveImport('main-only', 'src/app.js'),
+          'node_modules/main-only/lib/index.js');
+      assert.equal(
+          resolver.resolveImport('no-manifest', 'src/app.js'),
+          'node_modules/no-manifest/index.js');
+    });
+
+    test('resolves scoped packages and files within packages', () => {
+      assert.equal(
+          resolver.resolveImport('@scope/scoped', 'src/app.js'),
+          'node_modules/@scope/scoped/scoped.js');
+      assert.equal(
+          resolver.resolveImport('dep/helper.js', 'src/app.js'),
+          'node_modules/dep/helper.js');
+      assert.equal(
+          resolver.resolveImport('dep/helper', 'src/app.js'),
+          'node_modules/dep/helper.js');
+    });
+
+    test('finds the nearest node_modules first', () => {
+      assert.equal(
+          resolver.resolveImport('nested', 'node_modules/dep/dep.module.js'),
+          'node_modules/dep/node_modules/nested/index.js');
+      assert.equal(
+          resolver.resolveImport('nested', 'src/app.js'),
+          'node_modules/nested/top.js');
+      assert.equal(
+          resolver.resolveImport(
+              'dep', 'node_modules/dep/node_modules/nested/index.js'),
+          'node_modules/dep/dep.module.js');
+    });
+
+    test('returns undefined for packages that aren\'t installed', () => {
+      assert.isUndefined(resolver.resolveImport('missing', 'src/app.js'));
+      assert.isUndefined(
+          resolver.resolveImport('dep/missing.js', 'src/app.js'));
+      assert.isUndefined(resolver.resolveImport('@scope', 'src/app.js'));
+    });
+
+  });
+
+});
@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {assert} from 'chai';
+import * as path from 'path';
+
+import {Analyzer} from '../../analyzer';
+import {FSUrlLoader} from '../../url-loader/fs-url-loader';
+import {OverlayUrlLoader} from '../../url-loader/overlay-loader';
+import {invertPromise} from '../test-utils';
+
+suite('OverlayUrlLoader', () => {
+  const fsLoader = new FSUrlLoader(path.resolve(__dirname, '../static'));
+
+  test('prefers overlaid contents to the fallback loader', async() => {
+    const loader = new OverlayUrlLoader(fsLoader);
+    assert.include(await loader.load('xhr-text.txt'), 'Hello');
+    loader.set('xhr-text.txt', 'Unsaved');
+    assert.equal(await loader.load('xhr-text.txt'), 'Unsaved');
+    loader.delete('xhr-text.txt');
+    assert.include(await loader.load('xhr-text.txt'), 'Hello');
+  });
+
+  test('only loads overlaid contents without a fallback loader', async() => {
+    const loader = new OverlayUrlLoader();
+    assert.isFalse(loader.canLoad('a.html'));
+    await invertPromise(loader.load('a.html'));
+    loader.set('a.html', '<div></div>');
+    assert.isTrue(loader.canLoad('a.html'));
+    loader.clear();
+    assert.isFalse(loader.canLoad('a.html'));
+  });
+
+  test('reports the urls whose contents change', () => {
+    const loader = new OverlayUrlLoader();
+    const changes: string[][] = [];
+    const stopListening = loader.onChange((urls) => changes.push(urls));
+    loader.set('a.html', 'a');
+    loader.set('b.html', 'b');
+    loader.delete('a.html');
+    loader.delete('a.html');
+    loader.clear();
+    stopListening();
+    loader.set('c.html', 'c');
+    assert.deepEqual(changes, [['a.html'], ['b.html'], ['a.html'], ['b.html']]);
+  });
+
+  test('passes on the changes reported by the fallback loader', () => {
+    const fallback = new OverlayUrlLoader();
+    const loader = new OverlayUrlLoader(fallback);
+    const changes: string[][] = [];
+    loader.onChange((urls) => changes.push(urls));
+    fallback.set('a.html', 'a');
+    assert.deepEqual(changes, [['a.html']]);
+  });
+
+  test('makes analyzers reanalyze the files that change', async() => {
+    const loader = new OverlayUrlLoader();
+    loader.set('root.html', '<link rel="import" href="leaf.html">');
+    loader.set('leaf.html', '<dom-module id="before"></dom-module>');
+    const analyzer = new Analyzer({urlLoader: loader});
+    const root = await analyzer.analyzeRoot('root.html');
+    assert.equal(await analyzer.analyzeRoot('root.html'), root);
+
+    loader.set('leaf.html', '<dom-module id="after"></dom-module>');
+    const newRoot = await analyzer.analyzeRoot('root.html');
+    assert.deepEqual(
+        Array.from(newRoot.getByKind('dom-module')).map((m) => m.id),
+        ['after']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import * as fs from 'fs';
+import * as pathlib from 'path';
+import {resolve as resolveUrl} from 'url';
+
+import {PackageUrlResolver} from './package-url-resolver';
+
+export interface NpmUrlResolverOptions {
+  /**
+   * The directory of the package on disk, which has its `node_modules/`.
+   * Defaults to the current directory.
+   */
+  packageDir?: string;
+  hostname?: string;
+}
+
+/**
+ * Resolves URLs within a package whose dependencies are installed by npm.
+ *
+ * Sibling URLs like `../foo/foo.js` resolve into `node_modules/`, and the bare
+ * specifiers of JavaScript imports, like `foo` or `@scope/foo/bar.js`, are
+ * looked up the way that node does, in the `node_modules/` directories from
+ * the importing file's up to the package's, honoring the `module` and `main`
+ * fields of the packages' `package.json`. An Analyzer given one as its
+ * `urlResolver` resolves the imports of JavaScript modules with it.
+ */
+export class NpmUrlResolver extends PackageUrlResolver {
+  packageDir: string;
+
+  constructor(options?: NpmUrlResolverOptions) {
+    options = options || {};
+    super({componentDir: 'node_modules/', hostname: options.hostname});
+    this.packageDir = options.packageDir || process.cwd();
+  }
+
+  resolveImport(specifier: string, importerUrl: string): string|undefined {
+    if (!isBareSpecifier(specifier)) {
+      const url = resolveUrl(importerUrl, specifier);
+      return this.canResolve(url) ? this.resolve(url) : undefined;
+    }
+    const match = specifier.match(/^((?:@[^/]+\/)?[^/@][^/]*)(?:\/(.*))?$/);
+    if (!match) {
+      return undefined;
+    }
+    const [, name, subpath] = match;
+    for (const modulesDir of this._getNodeModulesDirs(importerUrl)) {
+      const packageUrl = pathlib.posix.join(modulesDir, name);
+      if (!this._isDirectory(packageUrl)) {
+        continue;
+      }
+      if (subpath) {
+        return this._findFile(pathlib.posix.join(packageUrl, subpath));
+      }
+      const manifest = this._readManifest(packageUrl);
+      const entry = manifest.module || manifest.main || 'index.js';
+      return this._findFile(pathlib.posix.join(packageUrl, entry));
+    }
+    return undefined;
+  }
+
+  /**
+   * The `node_modules/` directories that an import in the file at
+   * `importerUrl` can find packages in, nearest first.
+   */
+  private _getNodeModulesDirs(importerUrl: string): string[] {
+    const dirs: string[] = [];
+    const segments = pathlib.posix.dirname(importerUrl)
+                         .split('/')
+                         .filter((segment) => segment && segment !== '.');
+    for (let i = segments.length; i >= 0; i--) {
+      if (segments[i - 1] === 'node_modules') {
+        continue;
+      }
+      dirs.push(segments.slice(0, i).concat(['node_modules']).join('/'));
+    }
+    return dirs;
+  }
+
+  /**
+   * Finds the file that an import of `url` loads, trying the `.js` extension
+   * and `index.js` the way that node does.
+   */
+  private _findFile(url: string): string|undefined {
+    const candidates = [url, `${url}.js`, pathlib.posix.join(url, 'index.js')];
+    return candidates.find((candidate) => this._isFile(candidate));
+  }
+
+  private _readManifest(packageUrl: string): {module?: string, main?: string} {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(
+          this._getFilePath(pathlib.posix.join(packageUrl, 'package.json')),
+          'utf-8'));
+      return manifest && typeof manifest === 'object' ? manifest : {};
+    } catch (_) {
+      return {};
+    }
+  }
+
+  private _isDirectory(url: string): boolean {
+    const stats = this._stat(url);
+    return !!stats && stats.isDirectory();
+  }
+
+  private _isFile(url: string): boolean {
+    const stats = this._stat(url);
+    return !!stats && stats.isFile();
+  }
+
+  private _stat(url: string): fs.Stats|undefined {
+    try {
+      return fs.statSync(this._getFilePath(url));
+    } catch (_) {
+      return undefined;
+    }
+  }
+
+  private _getFilePath(url: string): string {
+    return pathlib.join(this.packageDir, ...url.split('/'));
+  }
+}
+
+/**
+ * Whether an import specifier names a package rather than a path or a URL.
+ */
+function isBareSpecifier(specifier: string): boolean {
+  return !/^(\/|\.\/|\.\.\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
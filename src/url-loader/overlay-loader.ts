@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright (c) 2016 The Polymer Project Authors. All rights reserved.
+ * This code may only be used under the BSD style license found at
+ * http://polymer.github.io/LICENSE.txt
+ * The complete set of authors may be found at
+ * http://polymer.github.io/AUTHORS.txt
+ * The complete set of contributors may be found at
+ * http://polymer.github.io/CONTRIBUTORS.txt
+ * Code distributed by Google as part of the polymer project is also
+ * subject to an additional IP rights grant found at
+ * http://polymer.github.io/PATENTS.txt
+ */
+
+import {UrlLoader} from './url-loader';
+
+/**
+ * Loads the contents of urls from an in-memory map when they're present there,
+ * falling back to another UrlLoader when they aren't, if it's given one.
+ *
+ * Useful for editors, which have unsaved changes in their buffers, and for
+ * tests. Changing the map tells the analyzers using this loader which urls
+ * changed, as do changes reported by the fallback loader.
+ */
+export class OverlayUrlLoader implements UrlLoader {
+  private _fallbackLoader: UrlLoader|undefined;
+  private _overlay = new Map<string, string>();
+  private _listeners = new Set<(urls: string[]) => void>();
+
+  constructor(fallbackLoader?: UrlLoader) {
+    this._fallbackLoader = fallbackLoader;
+    if (fallbackLoader && fallbackLoader.onChange) {
+      fallbackLoader.onChange((urls) => this._notify(urls));
+    }
+  }
+
+  canLoad(url: string): boolean {
+    return this._overlay.has(url) ||
+        (!!this._fallbackLoader && this._fallbackLoader.canLoad(url));
+  }
+
+  async load(url: string): Promise<string> {
+    if (this._overlay.has(url)) {
+      return this._overlay.get(url);
+    }
+    if (!this._fallbackLoader) {
+      throw new Error(`No contents for ${url}`);
+    }
+    return this._fallbackLoader.load(url);
+  }
+
+  onChange(listener: (urls: string[]) => void): () => void {
+    this._listeners.add(listener);
+    return () => {
+      this._listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Overrides the contents of `url` until `delete` is called with it.
+   */
+  set(url: string, contents: string) {
+    this._overlay.set(url, contents);
+    this._notify([url]);
+  }
+
+  /**
+   * Stops overriding the contents of `url`.
+   */
+  delete(url: string) {
+    if (this._overlay.delete(url)) {
+      this._notify([url]);
+    }
+  }
+
+  /**
+   * Stops overriding the contents of every url.
+   */
+  clear() {
+    const urls = Array.from(this._overlay.keys());
+    this._overlay.clear();
+    if (urls.length > 0) {
+      this._notify(urls);
+    }
+  }
+
+  private _notify(urls: string[]) {
+    for (const listener of Array.from(this._listeners)) {
+      listener(urls);
+    }
+  }
+}
@@ -14,4 +14,13 @@ export interface UrlLoader {
    * This should only be called if `canLoad` returns `true` for `url`.
    */
   load(url: string): Promise<string>;
+
+  /**
+   * Calls `listener` with the urls whose contents change, for loaders that
+   * know when that happens. Analyzers listen so that they reanalyze the
+   * changed files without being told.
+   *
+   * Returns a function that stops calling `listener`.
+   */
+  onChange?(listener: (urls: string[]) => void): () => void;
 }
@@ -16,4 +16,13 @@ export interface UrlResolver {
    * Resoves `url` to a new location.
    */
   resolve(url: string): string;
+
+  /**
+   * Resolves the specifier of an import in the document at `importerUrl`, for
+   * resolvers that know what bare specifiers like `foo` refer to. Returns
+   * undefined when the specifier doesn't refer to anything.
+   *
+   * The Analyzer uses it for the imports of JavaScript modules.
+   */
+  resolveImport?(specifier: string, importerUrl: string): string|undefined;
 }
@@ -18,4 +18,23 @@ export function trimLeft(str: string, char: string): string {
     leftEdge++;
   }
   return str.substring(leftEdge);
-}
\ No newline at end of file
+}
+
+/**
+ * The number of single character insertions, deletions and substitutions
+ * that it takes to turn `a` into `b`.
+ */
+export function editDistance(a: string, b: string): number {
+  let previousRow = Array.from({length: b.length + 1}, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(
+          previousRow[j] + 1, row[j - 1] + 1,
+          previousRow[j - 1] + substitutionCost);
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+}
@@ -14,13 +14,14 @@
 
 import * as estree from 'estree';
 
-import {ScannedElement, ScannedFeature} from '../model/model';
+import {ScannedElement, ScannedFeature, SourceRange} from '../model/model';
 import * as astValue from '../javascript/ast-value';
 import {Visitor} from '../javascript/estree-visitor';
 import * as esutil from '../javascript/esutil';
 import {JavaScriptDocument} from '../javascript/javascript-document';
 import {JavaScriptScanner} from '../javascript/javascript-scanner';
 import * as jsdoc from '../javascript/jsdoc';
+import {isPolymerElementClass} from '../polymer/polymer-element-scanner';
 
 export interface ScannedAttribute extends ScannedFeature {
   name: string;
@@ -39,7 +40,8 @@ export class ElementScanner implements JavaScriptScanner {
 
 class ElementVisitor implements Visitor {
   private _possibleElements = new Map<string, ScannedElement>();
-  private _registeredButNotFound = new Map<string, string>();
+  private _registeredButNotFound =
+      new Map<string, {tagName: string, tagNameSourceRange: SourceRange}>();
   private _elements: ScannedElement[] = [];
   private _document: JavaScriptDocument;
 
@@ -72,7 +74,12 @@ class ElementVisitor implements Visitor {
     }
   }
 
-  private _handleClass(node: estree.ClassDeclaration|estree.ClassExpression) {
+  private _handleClass(node: estree.ClassDeclaration|estree.ClassExpression):
+      ScannedElement|null {
+    if (isPolymerElementClass(node)) {
+      // The PolymerElementScanner finds these.
+      return null;
+    }
     const element = new ScannedElement();
     element.description =
         (jsdoc.parseJsdoc(esutil.getAttachedComment(node) || '')
@@ -80,9 +87,9 @@ class ElementVisitor implements Visitor {
          '');
     element.events = esutil.getEventComments(node);
     element.sourceRange = this._document.sourceRangeForNode(node);
-    if (node.superClass && node.superClass.type === 'Identifier') {
-      element.superClass = node.superClass.name;
-    }
+    // e.g. `HTMLElement` for `class extends MixinA(MixinB(HTMLElement))`.
+    element.superClass =
+        esutil.getSuperClassAndMixins(node.superClass).superClass;
     const observedAttributesDefn: estree.MethodDefinition =
         node.body.body.find(m => {
           if (m.type !== 'MethodDefinition' || !m.static) {
@@ -116,16 +123,21 @@ class ElementVisitor implements Visitor {
     if (elementDefn == null) {
       return;
     }
-    const element: ScannedElement|null = this._getElement(tagName, elementDefn);
+    const tagNameSourceRange =
+        this._document.sourceRangeForNode(node.arguments[0]);
+    const element: ScannedElement|null =
+        this._getElement(tagName, tagNameSourceRange, elementDefn);
     if (!element) {
       return;
     }
     element.tagName = tagName;
+    element.tagNameSourceRange = tagNameSourceRange;
     this._elements.push(element);
   }
 
-  private _getElement(tagName: string, elementDefn: estree.Node): ScannedElement
-      |null {
+  private _getElement(
+      tagName: string, tagNameSourceRange: SourceRange,
+      elementDefn: estree.Node): ScannedElement|null {
     const className = astValue.getIdentifierName(elementDefn);
     if (className) {
       const element = this._possibleElements.get(className);
@@ -133,7 +145,8 @@ class ElementVisitor implements Visitor {
         this._possibleElements.delete(className);
         return element;
       } else {
-        this._registeredButNotFound.set(className, tagName);
+        this._registeredButNotFound.set(
+            className, {tagName, tagNameSourceRange});
         return null;
       }
     }
@@ -197,11 +210,12 @@ class ElementVisitor implements Visitor {
     const results = this._elements;
     for (const classAndTag of this._registeredButNotFound.entries()) {
       const className = classAndTag[0];
-      const tagName = classAndTag[1];
+      const registration = classAndTag[1];
       const element = this._possibleElements.get(className);
       if (element) {
         element.className = className;
-        element.tagName = tagName;
+        element.tagName = registration.tagName;
+        element.tagNameSourceRange = registration.tagNameSourceRange;
         results.push(element);
       }
     }